@@ -0,0 +1,168 @@
+// electron/atomicWrite.ts
+/**
+ * 💾 原子写入模块
+ *
+ * 直接覆盖写入目标文件时，若中途崩溃或磁盘已满，文件会被截断。
+ * 这里先写入同目录下的临时文件并 fsync，再通过 rename 替换目标文件，
+ * 任何时刻磁盘上都是完整的旧版本或新版本。
+ *
+ * 【细节处理】
+ * - 符号链接：写入链接指向的真实文件，链接本身保持不变
+ * - 权限：临时文件沿用原文件的权限位（POSIX 下尽量保留属主）
+ * - 硬链接：rename 会断开其他硬链接，此时退回直接写入
+ * - rename 被占用（Windows 杀毒软件等）：重试后仍失败则报错，不直接覆盖原文件
+ * - 目录不可写（无法创建临时文件）：同样报错，由调用方提示用户
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * 备份策略
+ * - none: 不备份
+ * - single: 保存前将原文件复制为 <文件名>.bak
+ * - rotate: 轮换保留多个备份 <文件名>.bak.1（最新）... <文件名>.bak.N
+ */
+export type BackupMode = 'none' | 'single' | 'rotate'
+
+/**
+ * 写入选项
+ */
+export interface AtomicWriteOptions {
+  /** 备份策略 */
+  backupMode?: BackupMode
+  /** 轮换备份保留数量 */
+  backupCount?: number
+}
+
+/** rename 被占用时的重试次数 */
+const RENAME_RETRIES = 3
+
+/**
+ * 解析写入目标（跟随符号链接）
+ */
+async function resolveTargetPath(filePath: string): Promise<string> {
+  try {
+    return await fs.promises.realpath(filePath)
+  } catch {
+    // 新文件（或悬空链接）
+    return filePath
+  }
+}
+
+/**
+ * 保存前备份原文件
+ */
+async function createBackup(targetPath: string, options: AtomicWriteOptions): Promise<void> {
+  if (options.backupMode === 'single') {
+    await fs.promises.copyFile(targetPath, `${targetPath}.bak`)
+    return
+  }
+
+  const count = Math.max(1, options.backupCount ?? 1)
+  // 依次后移：.bak.(N-1) -> .bak.N，最旧的被覆盖
+  for (let i = count - 1; i >= 1; i--) {
+    await fs.promises.rename(`${targetPath}.bak.${i}`, `${targetPath}.bak.${i + 1}`).catch(() => {})
+  }
+  await fs.promises.copyFile(targetPath, `${targetPath}.bak.1`)
+}
+
+/**
+ * 重命名，目标被短暂占用时重试
+ */
+async function renameWithRetry(fromPath: string, toPath: string): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await fs.promises.rename(fromPath, toPath)
+      return
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      if (attempt >= RENAME_RETRIES || (code !== 'EPERM' && code !== 'EBUSY' && code !== 'EACCES')) {
+        throw error
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50 * (attempt + 1)))
+    }
+  }
+}
+
+/**
+ * 同步目录项，确保 rename 落盘（Windows 不支持打开目录）
+ */
+async function syncDirectory(dirPath: string): Promise<void> {
+  if (process.platform === 'win32') return
+  const handle = await fs.promises.open(dirPath, 'r').catch(() => null)
+  if (handle) {
+    await handle.sync().catch(() => {})
+    await handle.close()
+  }
+}
+
+/**
+ * 原子写入文件
+ * @param filePath 文件路径
+ * @param content 文件内容（字符串按 UTF-8 写入）
+ * @param options 写入选项
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string | Buffer,
+  options: AtomicWriteOptions = {},
+): Promise<void> {
+  const targetPath = await resolveTargetPath(filePath)
+  const existing = await fs.promises.stat(targetPath).catch(() => null)
+
+  if (existing) {
+    // rename 会绕过只读属性，这里先确认原文件可写
+    await fs.promises.access(targetPath, fs.constants.W_OK)
+
+    if (options.backupMode && options.backupMode !== 'none') {
+      try {
+        await createBackup(targetPath, options)
+      } catch (error) {
+        console.error(`[AtomicWrite] 备份失败，继续保存: ${targetPath}`, error)
+      }
+    }
+
+    // 存在其他硬链接时，替换文件会使它们指向旧内容
+    if (existing.nlink > 1) {
+      await fs.promises.writeFile(targetPath, content, 'utf-8')
+      return
+    }
+  }
+
+  const dirPath = path.dirname(targetPath)
+  const tempPath = path.join(dirPath, `.${path.basename(targetPath)}.${process.pid}.${Date.now()}.tmp`)
+  const mode = existing ? existing.mode & 0o7777 : 0o666
+
+  let handle: fs.promises.FileHandle | null = null
+  try {
+    handle = await fs.promises.open(tempPath, 'wx', mode)
+    await handle.writeFile(content, 'utf-8')
+    await handle.sync()
+    await handle.close()
+    handle = null
+
+    if (existing) {
+      // open 的 mode 会受 umask 影响，这里显式恢复
+      await fs.promises.chmod(tempPath, mode).catch(() => {})
+      if (process.platform !== 'win32') {
+        await fs.promises.chown(tempPath, existing.uid, existing.gid).catch(() => {})
+      }
+    }
+
+    await renameWithRetry(tempPath, targetPath)
+    await syncDirectory(dirPath)
+  } catch (error) {
+    await handle?.close().catch(() => {})
+    await fs.promises.unlink(tempPath).catch(() => {})
+
+    // 临时文件与目标在同一目录，正常不会跨设备；只有这种情况退回直接写入
+    const code = (error as NodeJS.ErrnoException).code
+    if (code === 'EXDEV') {
+      console.warn(`[AtomicWrite] 无法原子写入 (${code})，退回直接写入: ${targetPath}`)
+      await fs.promises.writeFile(targetPath, content, 'utf-8')
+      return
+    }
+    throw error
+  }
+}
@@ -0,0 +1,316 @@
+// electron/cli.ts
+/**
+ * ⌨️ 命令行参数解析
+ *
+ * 将启动参数解析为结构化的启动选项，交给渲染进程处理：
+ * - 打开多个文件，`file.md:42[:col]` 跳转到指定位置
+ * - `--new <dir> [--template name]` 在目录中新建文件
+ * - `--view preview|edit|split` 指定视图模式
+ * - `--readonly` 以只读方式打开
+ *
+ * 无界面导出模式：`--export <文件或目录> --to html|pdf|txt [--out <路径>] [--theme id]`
+ *
+ * 相对路径按启动时的工作目录解析（再次启动转发的参数使用那次启动的工作目录）。
+ * 未知的开关（如 Chromium/Electron 的 --no-sandbox、--disable-gpu、macOS 的 -psn_...）只给出警告，
+ * 仅应用自身选项的取值有误时才报错。
+ * `--register` / `--unregister` 由 main.ts 在解析前单独处理。
+ */
+
+import * as path from 'path'
+
+/**
+ * 视图模式
+ */
+export type LaunchViewMode = 'edit' | 'preview' | 'split'
+
+/**
+ * 要打开的文件
+ */
+export interface LaunchFile {
+  filePath: string
+  /** 跳转到的行（从 1 开始） */
+  line: number | null
+  /** 跳转到的列（从 1 开始） */
+  column: number | null
+}
+
+/**
+ * 启动选项
+ */
+export interface LaunchOptions {
+  files: LaunchFile[]
+  /** 在目录中新建文件 */
+  newFile: { directory: string; template: string | null } | null
+  viewMode: LaunchViewMode | null
+  readOnly: boolean
+}
+
+/**
+ * 解析结果
+ */
+export interface ParsedCommandLine {
+  options: LaunchOptions
+  /** 是否请求显示帮助 */
+  help: boolean
+  /** 参数错误（应用自身选项的取值有误） */
+  errors: string[]
+  /** 被忽略的未知选项 */
+  warnings: string[]
+}
+
+/**
+ * 导出格式
+ */
+export type ExportFormat = 'html' | 'pdf' | 'txt'
+
+/**
+ * 导出选项
+ */
+export interface ExportOptions {
+  /** 输入的 Markdown 文件或目录（目录时批量导出其中所有文件） */
+  input: string
+  format: ExportFormat
+  /** 输出文件或目录（默认与输入同目录） */
+  output: string | null
+  /** 主题 ID（默认使用应用设置中的主题） */
+  themeId: string | null
+}
+
+/**
+ * 导出参数解析结果
+ */
+export interface ParsedExportCommandLine {
+  options: ExportOptions | null
+  help: boolean
+  errors: string[]
+}
+
+const VIEW_MODES: LaunchViewMode[] = ['edit', 'preview', 'split']
+
+const EXPORT_FORMATS: ExportFormat[] = ['html', 'pdf', 'txt']
+
+export const USAGE = `用法: 0xNote [选项] [文件[:行[:列]] ...]
+
+选项:
+  --new <目录>           在目录中新建文件
+  --template <名称>      新建文件时使用 data/templates/<名称>.md 作为内容（需配合 --new）
+  --view <模式>          视图模式: preview | edit | split
+  --readonly             以只读方式打开文件
+  -h, --help             显示此帮助
+
+无界面导出（不打开窗口）:
+  0xNote --export <文件或目录> --to html|pdf|txt [--out <路径>] [--theme <主题 ID>]
+  输入为目录时导出其中所有 .md/.markdown 文件（包括子目录），--out 为输出目录。
+  退出码: 0 全部成功，1 有文件导出失败，2 参数错误
+
+示例:
+  0xNote notes.md README.markdown
+  0xNote notes.md:42:5 --view edit
+  0xNote --new D:\\Notes --template daily
+  0xNote --export docs --to html --out build\\docs`
+
+/**
+ * 空的启动选项
+ */
+export function createEmptyLaunchOptions(): LaunchOptions {
+  return { files: [], newFile: null, viewMode: null, readOnly: false }
+}
+
+/**
+ * 解析 `路径:行[:列]`
+ * Windows 盘符（如 `C:\`）后面不是数字，不会被误认为行号
+ */
+function parseFileArg(arg: string, cwd: string): LaunchFile {
+  const match = /^(.+?):(\d+)(?::(\d+))?$/.exec(arg)
+  const filePath = match?.[1] ?? arg
+  return {
+    filePath: path.resolve(cwd, filePath),
+    line: match?.[2] ? Math.max(1, Number(match[2])) : null,
+    column: match?.[3] ? Math.max(1, Number(match[3])) : null,
+  }
+}
+
+/**
+ * 逐个读取参数
+ * 选项支持 --name=value 和 --name value 两种写法，takeValue() 读取选项的值；
+ * 不以 - 开头的参数 name 为 null
+ */
+function* readArgs(
+  args: string[],
+): Generator<{ arg: string; name: string | null; takeValue: () => string | null }> {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (!arg.startsWith('-')) {
+      yield { arg, name: null, takeValue: () => null }
+      continue
+    }
+
+    const [name, inlineValue] = arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined]
+
+    yield {
+      arg,
+      name,
+      takeValue: () => {
+        if (inlineValue !== undefined) return inlineValue || null
+        const next = args[i + 1]
+        if (next === undefined || next.startsWith('-')) return null
+        i++
+        return next
+      },
+    }
+  }
+}
+
+/**
+ * 解析命令行参数
+ * @param args 用户参数（不含可执行文件路径）
+ * @param cwd 启动时的工作目录
+ */
+export function parseCommandLine(args: string[], cwd: string): ParsedCommandLine {
+  const options = createEmptyLaunchOptions()
+  const errors: string[] = []
+  const warnings: string[] = []
+  let help = false
+  let template: string | null = null
+
+  for (const { arg, name, takeValue } of readArgs(args)) {
+    if (!name) {
+      options.files.push(parseFileArg(arg, cwd))
+      continue
+    }
+
+    switch (name) {
+      case '-h':
+      case '--help':
+        help = true
+        break
+
+      case '--readonly':
+        options.readOnly = true
+        break
+
+      case '--new': {
+        const directory = takeValue()
+        if (directory) {
+          options.newFile = { directory: path.resolve(cwd, directory), template: null }
+        } else {
+          errors.push('--new 需要指定目录')
+        }
+        break
+      }
+
+      case '--template':
+        template = takeValue()
+        if (!template) {
+          errors.push('--template 需要指定模板名称')
+        } else if (path.basename(template) !== template) {
+          errors.push(`无效的模板名称: ${template}`)
+        }
+        break
+
+      case '--view': {
+        const mode = takeValue()
+        if (mode && VIEW_MODES.includes(mode as LaunchViewMode)) {
+          options.viewMode = mode as LaunchViewMode
+        } else {
+          errors.push(
+            `--view 的取值必须是 ${VIEW_MODES.join(' | ')}${mode ? `，收到: ${mode}` : ''}`,
+          )
+        }
+        break
+      }
+
+      // Chromium/Electron 的开关等交给它们自己处理
+      default:
+        warnings.push(`忽略未知选项: ${arg}`)
+    }
+  }
+
+  if (template) {
+    if (options.newFile) {
+      options.newFile.template = template
+    } else {
+      errors.push('--template 需要与 --new 一起使用')
+    }
+  }
+
+  return { options, help, errors, warnings }
+}
+
+/**
+ * 解析无界面导出模式的参数
+ * @param args 用户参数（不含可执行文件路径）
+ * @param cwd 启动时的工作目录
+ */
+export function parseExportCommandLine(args: string[], cwd: string): ParsedExportCommandLine {
+  const errors: string[] = []
+  let help = false
+  let input: string | null = null
+  let format: ExportFormat | null = null
+  let output: string | null = null
+  let themeId: string | null = null
+
+  for (const { arg, name, takeValue } of readArgs(args)) {
+    switch (name) {
+      case null:
+        errors.push(`多余的参数: ${arg}`)
+        break
+
+      case '-h':
+      case '--help':
+        help = true
+        break
+
+      case '--export':
+        input = takeValue()
+        if (!input) errors.push('--export 需要指定文件或目录')
+        break
+
+      case '--to': {
+        const value = takeValue()
+        if (value && EXPORT_FORMATS.includes(value as ExportFormat)) {
+          format = value as ExportFormat
+        } else {
+          errors.push(
+            `--to 的取值必须是 ${EXPORT_FORMATS.join(' | ')}${value ? `，收到: ${value}` : ''}`,
+          )
+        }
+        break
+      }
+
+      case '--out':
+        output = takeValue()
+        if (!output) errors.push('--out 需要指定路径')
+        break
+
+      case '--theme':
+        themeId = takeValue()
+        if (!themeId) errors.push('--theme 需要指定主题 ID')
+        break
+
+      default:
+        errors.push(`未知选项: ${name}`)
+    }
+  }
+
+  if (!help && !format && !errors.some((error) => error.startsWith('--to'))) {
+    errors.push('缺少 --to 参数')
+  }
+
+  if (help || errors.length > 0 || !input || !format) {
+    return { options: null, help, errors }
+  }
+
+  return {
+    options: {
+      input: path.resolve(cwd, input),
+      format,
+      output: output ? path.resolve(cwd, output) : null,
+      themeId,
+    },
+    help,
+    errors,
+  }
+}
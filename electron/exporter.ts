@@ -0,0 +1,240 @@
+// electron/exporter.ts
+/**
+ * 📤 无界面导出（--export）
+ *
+ * 供文档构建脚本使用：不显示窗口，把 Markdown 导出为 HTML / PDF / 纯文本。
+ * 渲染交给隐藏的渲染进程完成（与预览面板共用 markdown-it 管线和主题样式），
+ * 这样导出结果与应用中看到的完全一致；PDF 由主进程打印渲染好的 HTML 得到。
+ *
+ * 输入为目录时递归导出其中所有 Markdown 文件，输出目录保持相同的结构。
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import type { ExportFormat, ExportOptions } from './cli'
+import { decodeText } from './textEncoding'
+
+/**
+ * 发给渲染进程的渲染请求
+ */
+export interface ExportRenderRequest {
+  id: number
+  content: string
+  filePath: string
+  /** HTML 的输出路径（相对路径图片改写为相对于它的路径）；打印 PDF 和纯文本为 null */
+  outputPath: string | null
+  /** PDF 请求 HTML */
+  format: 'html' | 'txt'
+  themeId: string | null
+}
+
+interface RenderResult {
+  success: boolean
+  data?: string
+  error?: string
+}
+
+/**
+ * 退出码
+ */
+export const EXPORT_EXIT_CODE = {
+  /** 全部导出成功 */
+  success: 0,
+  /** 有文件导出失败 */
+  failed: 1,
+  /** 参数错误 */
+  usage: 2,
+} as const
+
+/** 等待渲染进程就绪的超时时间 */
+const RENDERER_READY_TIMEOUT = 30_000
+
+const MARKDOWN_FILE_PATTERN = /\.(md|markdown)$/i
+
+/**
+ * 递归收集目录中的 Markdown 文件（跳过隐藏目录和 node_modules）
+ */
+async function collectMarkdownFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = []
+  const entries = await fs.promises.readdir(dirPath, { withFileTypes: true })
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+    const entryPath = path.join(dirPath, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...(await collectMarkdownFiles(entryPath)))
+    } else if (entry.isFile() && MARKDOWN_FILE_PATTERN.test(entry.name)) {
+      files.push(entryPath)
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * 替换扩展名
+ */
+function withExtension(filePath: string, format: ExportFormat): string {
+  return filePath.replace(MARKDOWN_FILE_PATTERN, '') + `.${format}`
+}
+
+/**
+ * 确定每个输入文件的输出路径
+ */
+async function resolveJobs(options: ExportOptions): Promise<{ source: string; target: string }[]> {
+  const stats = await fs.promises.stat(options.input)
+
+  if (stats.isDirectory()) {
+    const outputDir = options.output ?? options.input
+    const files = await collectMarkdownFiles(options.input)
+    return files.map((source) => ({
+      source,
+      target: withExtension(
+        path.join(outputDir, path.relative(options.input, source)),
+        options.format,
+      ),
+    }))
+  }
+
+  let target = options.output ?? withExtension(options.input, options.format)
+  const outputStats = await fs.promises.stat(target).catch(() => null)
+  if (outputStats?.isDirectory()) {
+    target = path.join(target, withExtension(path.basename(options.input), options.format))
+  }
+  return [{ source: options.input, target }]
+}
+
+/**
+ * 把 HTML 打印为 PDF
+ * HTML 先写入临时文件再加载，保证 file:// 图片可以访问
+ */
+async function printToPdf(window: BrowserWindow, html: string): Promise<Buffer> {
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), '0xnote-export-'))
+  try {
+    const htmlPath = path.join(tempDir, 'index.html')
+    await fs.promises.writeFile(htmlPath, html, 'utf-8')
+    await window.loadFile(htmlPath)
+    return await window.webContents.printToPDF({ printBackground: true, pageSize: 'A4' })
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * 执行导出
+ * @param options 导出选项
+ * @param loadRenderer 在窗口中加载渲染进程页面（无界面模式）
+ * @param preloadPath preload 脚本路径
+ * @returns 退出码
+ */
+export async function runHeadlessExport(
+  options: ExportOptions,
+  loadRenderer: (window: BrowserWindow) => Promise<void>,
+  preloadPath: string,
+): Promise<number> {
+  let jobs: { source: string; target: string }[]
+  try {
+    jobs = await resolveJobs(options)
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException
+    console.error(`0xNote: 无法读取 ${options.input}: ${err.message}`)
+    return EXPORT_EXIT_CODE.usage
+  }
+
+  if (jobs.length === 0) {
+    console.error(`0xNote: ${options.input} 中没有 Markdown 文件`)
+    return EXPORT_EXIT_CODE.failed
+  }
+
+  const webPreferences = {
+    contextIsolation: true,
+    nodeIntegration: false,
+    sandbox: false,
+    webSecurity: false, // 允许加载本地资源 (file://)
+  }
+  const renderer = new BrowserWindow({
+    show: false,
+    webPreferences: { ...webPreferences, preload: preloadPath },
+  })
+  const pdfWindow =
+    options.format === 'pdf' ? new BrowserWindow({ show: false, webPreferences }) : null
+
+  // 请求 ID -> 等待结果的回调
+  const pending = new Map<number, (result: RenderResult) => void>()
+  let requestSeed = 0
+  let isRendererGone = false
+
+  // 渲染进程崩溃后，未完成和后续的请求都直接失败
+  renderer.webContents.on('render-process-gone', () => {
+    isRendererGone = true
+    pending.forEach((resolve) => resolve({ success: false, error: '渲染进程崩溃' }))
+    pending.clear()
+  })
+
+  ipcMain.handle('export:result', (_event, requestId: number, result: RenderResult) => {
+    pending.get(requestId)?.(result)
+    pending.delete(requestId)
+  })
+
+  const render = (request: Omit<ExportRenderRequest, 'id'>) =>
+    new Promise<RenderResult>((resolve) => {
+      if (isRendererGone) {
+        resolve({ success: false, error: '渲染进程崩溃' })
+        return
+      }
+      const id = ++requestSeed
+      pending.set(id, resolve)
+      renderer.webContents.send('export:render', { ...request, id })
+    })
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('渲染进程启动超时')), RENDERER_READY_TIMEOUT)
+      ipcMain.handleOnce('export:ready', () => {
+        clearTimeout(timer)
+        resolve()
+      })
+      renderer.webContents.once('render-process-gone', () => reject(new Error('渲染进程崩溃')))
+      loadRenderer(renderer).catch(reject)
+    })
+  } catch (error) {
+    console.error(`0xNote: ${(error as Error).message}`)
+    renderer.destroy()
+    pdfWindow?.destroy()
+    return EXPORT_EXIT_CODE.failed
+  }
+
+  let failedCount = 0
+  for (const { source, target } of jobs) {
+    try {
+      const { content } = decodeText(await fs.promises.readFile(source))
+      const result = await render({
+        content,
+        filePath: source,
+        outputPath: options.format === 'html' ? target : null,
+        format: options.format === 'txt' ? 'txt' : 'html',
+        themeId: options.themeId,
+      })
+      if (!result.success || result.data === undefined) {
+        throw new Error(result.error ?? '渲染失败')
+      }
+
+      await fs.promises.mkdir(path.dirname(target), { recursive: true })
+      if (pdfWindow) {
+        await fs.promises.writeFile(target, await printToPdf(pdfWindow, result.data))
+      } else {
+        await fs.promises.writeFile(target, result.data, 'utf-8')
+      }
+      console.log(`${source} -> ${target}`)
+    } catch (error) {
+      failedCount++
+      console.error(`0xNote: 导出 ${source} 失败: ${(error as Error).message}`)
+    }
+  }
+
+  renderer.destroy()
+  pdfWindow?.destroy()
+
+  console.log(`导出完成: ${jobs.length - failedCount} 成功，${failedCount} 失败`)
+  return failedCount > 0 ? EXPORT_EXIT_CODE.failed : EXPORT_EXIT_CODE.success
+}
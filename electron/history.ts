@@ -0,0 +1,198 @@
+// electron/history.ts
+/**
+ * 🕘 本地版本历史模块
+ *
+ * 每次保存时记录文件内容，误覆盖后可以找回旧版本。
+ *
+ * 【存储结构】
+ * <历史目录>/<路径哈希>/index.json   版本列表（最新的在前）
+ * <历史目录>/<路径哈希>/<内容哈希>    版本内容
+ *
+ * - 路径哈希：规范化后的文件路径的 SHA-256（Windows 下不区分大小写）
+ * - 内容按哈希寻址，同一文件的多个版本内容相同时只存储一份
+ * - 同一文件的读写串行执行，避免并发保存时 index.json 互相覆盖
+ */
+
+import { createHash } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { writeFileAtomic } from './atomicWrite'
+
+/**
+ * 历史版本
+ */
+export interface HistoryEntry {
+  /** 版本 ID（同一文件内唯一） */
+  id: string
+  /** 内容哈希 */
+  hash: string
+  /** 记录时间 */
+  savedAt: number
+  /** 内容大小（字节） */
+  size: number
+}
+
+/**
+ * 保留策略
+ */
+export interface HistoryRetention {
+  /** 每个文件最多保留的版本数 */
+  maxEntries: number
+  /** 最多保留的天数（0 表示不限） */
+  maxDays: number
+}
+
+/**
+ * 版本列表文件
+ */
+interface HistoryIndex {
+  /** 原始文件路径（便于人工查看） */
+  filePath: string
+  entries: HistoryEntry[]
+}
+
+const INDEX_FILE = 'index.json'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** 各文件的操作队列 */
+const queues = new Map<string, Promise<unknown>>()
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex')
+
+/**
+ * 获取文件对应的历史目录
+ */
+function getFileHistoryDir(historyDir: string, filePath: string): string {
+  let normalized = path.resolve(filePath)
+  if (process.platform === 'win32') {
+    normalized = normalized.toLowerCase()
+  }
+  return path.join(historyDir, sha256(normalized))
+}
+
+/**
+ * 串行执行同一文件的历史操作
+ */
+function enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) ?? Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  queues.set(key, next)
+  next
+    .finally(() => {
+      if (queues.get(key) === next) {
+        queues.delete(key)
+      }
+    })
+    .catch(() => undefined)
+  return next
+}
+
+async function readIndex(dir: string, filePath: string): Promise<HistoryIndex> {
+  try {
+    const index = JSON.parse(
+      await fs.promises.readFile(path.join(dir, INDEX_FILE), 'utf-8'),
+    ) as HistoryIndex
+    if (Array.isArray(index.entries)) {
+      return index
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[History] 版本列表损坏，将重新创建:', error)
+    }
+  }
+  return { filePath, entries: [] }
+}
+
+/**
+ * 按保留策略裁剪版本列表（至少保留最新的一个版本）
+ */
+function applyRetention(entries: HistoryEntry[], retention: HistoryRetention): HistoryEntry[] {
+  const maxEntries = Math.max(1, Math.floor(retention.maxEntries))
+  const cutoff = retention.maxDays > 0 ? Date.now() - retention.maxDays * DAY_MS : -Infinity
+  return entries.filter(
+    (entry, index) => index === 0 || (index < maxEntries && entry.savedAt >= cutoff),
+  )
+}
+
+/**
+ * 记录文件的一个版本
+ * @returns 新记录的版本；与最近一个版本内容相同时返回 null
+ */
+export function recordSnapshot(
+  historyDir: string,
+  filePath: string,
+  content: string,
+  retention: HistoryRetention,
+): Promise<HistoryEntry | null> {
+  const dir = getFileHistoryDir(historyDir, filePath)
+
+  return enqueue(dir, async () => {
+    const index = await readIndex(dir, filePath)
+    const hash = sha256(content)
+    if (index.entries[0]?.hash === hash) {
+      return null
+    }
+
+    await fs.promises.mkdir(dir, { recursive: true })
+
+    const blobPath = path.join(dir, hash)
+    if (!fs.existsSync(blobPath)) {
+      await writeFileAtomic(blobPath, content)
+    }
+
+    const savedAt = Date.now()
+    const entry: HistoryEntry = {
+      id: `${savedAt.toString(36)}-${hash.slice(0, 8)}`,
+      hash,
+      savedAt,
+      size: Buffer.byteLength(content, 'utf-8'),
+    }
+
+    const entries = applyRetention([entry, ...index.entries], retention)
+    await writeFileAtomic(
+      path.join(dir, INDEX_FILE),
+      JSON.stringify({ filePath, entries }, null, 2),
+    )
+
+    // 删除不再被引用的内容
+    const liveHashes = new Set(entries.map((item) => item.hash))
+    const staleHashes = new Set(
+      index.entries.filter((item) => !liveHashes.has(item.hash)).map((item) => item.hash),
+    )
+    for (const staleHash of staleHashes) {
+      await fs.promises.rm(path.join(dir, staleHash), { force: true })
+    }
+
+    return entry
+  })
+}
+
+/**
+ * 列出文件的历史版本（最新的在前）
+ */
+export function listSnapshots(historyDir: string, filePath: string): Promise<HistoryEntry[]> {
+  const dir = getFileHistoryDir(historyDir, filePath)
+  return enqueue(dir, async () => (await readIndex(dir, filePath)).entries)
+}
+
+/**
+ * 读取某个历史版本的内容
+ * @returns 版本不存在时返回 null
+ */
+export function readSnapshot(
+  historyDir: string,
+  filePath: string,
+  entryId: string,
+): Promise<string | null> {
+  const dir = getFileHistoryDir(historyDir, filePath)
+
+  return enqueue(dir, async () => {
+    const index = await readIndex(dir, filePath)
+    const entry = index.entries.find((item) => item.id === entryId)
+    if (!entry) {
+      return null
+    }
+    return fs.promises.readFile(path.join(dir, entry.hash), 'utf-8')
+  })
+}
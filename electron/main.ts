@@ -3,26 +3,113 @@
  * 🖥️ Electron 主进程
  *
  * 负责：
- * - 创建和管理窗口
+ * - 创建和管理窗口（单实例，再次启动时转发参数给已运行的实例）
  * - 处理系统级 IPC 调用
  * - 文件系统操作
  * - 注册表集成（Windows）
- * - 命令行参数处理（--register / --unregister）
+ * - 命令行参数处理（--register / --unregister，其余参数见 cli.ts）
  */
 
-import { app, BrowserWindow, dialog, ipcMain, Menu, shell } from 'electron'
+import { app, BrowserWindow, dialog, ipcMain, Menu, shell, type WebContents } from 'electron'
 import * as fs from 'fs'
 import * as path from 'path'
+import { fileURLToPath } from 'url'
+import { writeFileAtomic, type AtomicWriteOptions } from './atomicWrite'
+import {
+  createEmptyLaunchOptions,
+  parseCommandLine,
+  parseExportCommandLine,
+  USAGE,
+  type LaunchOptions,
+} from './cli'
+import { EXPORT_EXIT_CODE, runHeadlessExport } from './exporter'
+import { listSnapshots, readSnapshot, recordSnapshot, type HistoryRetention } from './history'
+import { canEncode, decodeText, encodeText, type TextEncoding, type TextFormat } from './textEncoding'
 
 // 是否为开发模式
 const isDev = !app.isPackaged
 
 // ==================== 命令行参数处理 ====================
+/**
+ * 从完整的命令行中取出用户参数
+ */
+const getUserArgs = (argv: string[]) => argv.slice(isDev ? 2 : 1)
+
 // 检查是否是注册表操作模式（静默模式）
-const args = process.argv.slice(isDev ? 2 : 1)
+const args = getUserArgs(process.argv)
 const isRegisterMode = args.includes('--register')
 const isUnregisterMode = args.includes('--unregister')
-const isNewFileMode = args.includes('--new')
+const isExportMode = args.includes('--export')
+
+// ==================== 路径配置 ====================
+/**
+ * 强制将用户数据（缓存、配置、Local Storage 等）存储在应用安装目录下的 data 文件夹
+ * ⚠️ 注意：此路径配置仅适用于 PC 客户端 (Electron)，绝对不要影响移动端 (HarmonyOS)
+ * 移动端应使用系统默认的沙箱路径
+ * 必须在 app 'ready' 事件之前设置
+ */
+function configureUserDataPath(): void {
+  try {
+    let dataPath = ''
+    if (isDev) {
+      // 开发模式：项目根目录/data
+      dataPath = path.join(process.cwd(), 'data')
+    } else {
+      // 生产模式：可执行文件同级目录/data
+      dataPath = path.join(path.dirname(process.execPath), 'data')
+    }
+
+    app.setPath('userData', dataPath)
+    console.log(`[Main] UserData path set to: ${dataPath}`)
+  } catch (error) {
+    console.error('[Main] Failed to set UserData path:', error)
+  }
+}
+
+/** 交给系统打开的链接协议（其他协议可能启动本地文件或程序，一律拒绝） */
+const EXTERNAL_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:'])
+
+/**
+ * 处理页面中要在新窗口打开的链接
+ * - 网页和邮件链接在默认程序中打开
+ * - 指向 Markdown 文件的 file: 链接交给渲染进程在应用内打开（记入跳转历史）
+ * - 其余链接忽略
+ */
+function handleOpenLink(contents: WebContents, url: string): void {
+  try {
+    const parsed = new URL(url)
+    if (EXTERNAL_LINK_PROTOCOLS.has(parsed.protocol)) {
+      shell.openExternal(url)
+      return
+    }
+    if (parsed.protocol === 'file:') {
+      const filePath = fileURLToPath(parsed)
+      if (/\.(md|markdown)$/i.test(filePath)) {
+        const heading = parsed.hash ? decodeURIComponent(parsed.hash.slice(1)) : null
+        contents.send('app:openNote', filePath, heading)
+        return
+      }
+    }
+  } catch (error) {
+    console.warn('[Main] 无法解析链接:', url, error)
+    return
+  }
+  console.warn('[Main] 已阻止打开链接:', url)
+}
+
+/**
+ * 在窗口中加载渲染进程页面
+ * @param query 页面查询参数（如无界面导出模式）
+ */
+function loadRendererPage(win: BrowserWindow, query?: Record<string, string>): Promise<void> {
+  if (isDev) {
+    // 开发模式：加载开发服务器
+    const search = query ? `?${new URLSearchParams(query)}` : ''
+    return win.loadURL(`http://localhost:5173${search}`)
+  }
+  // 生产模式：加载打包后的页面
+  return win.loadFile(path.join(__dirname, '../dist/index.html'), { query })
+}
 
 // 如果是注册表操作模式，立即处理并退出
 if (isRegisterMode || isUnregisterMode) {
@@ -41,41 +128,97 @@ if (isRegisterMode || isUnregisterMode) {
       process.exit(result.success ? 0 : 1)
     }
   })
+} else if (isExportMode) {
+  // ==================== 无界面导出 ====================
+  // 不显示窗口、不申请单实例锁（应用运行时也可以导出），完成后以退出码报告结果
+  const exportCommandLine = parseExportCommandLine(args, process.cwd())
+  if (exportCommandLine.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+  if (!exportCommandLine.options) {
+    exportCommandLine.errors.forEach((error) => console.error(`0xNote: ${error}`))
+    console.error('使用 --help 查看用法')
+    process.exit(EXPORT_EXIT_CODE.usage)
+  }
+
+  // 读取应用设置中的主题和字体
+  configureUserDataPath()
+
+  const exportOptions = exportCommandLine.options
+  app.whenReady().then(async () => {
+    const exitCode = await runHeadlessExport(
+      exportOptions,
+      (win) => loadRendererPage(win, { headless: '1' }),
+      path.join(__dirname, 'preload.js'),
+    )
+    process.exit(exitCode)
+  })
 } else {
   // ==================== 正常应用启动 ====================
 
-  // ==================== 路径配置 ====================
-  // 强制将用户数据（缓存、配置、Local Storage 等）存储在应用安装目录下的 data 文件夹
-  // ⚠️ 注意：此路径配置仅适用于 PC 客户端 (Electron)，绝对不要影响移动端 (HarmonyOS)
-  // 移动端应使用系统默认的沙箱路径
-  // 必须在 app 'ready' 事件之前设置
-  try {
-    let dataPath = ''
-    if (isDev) {
-      // 开发模式：项目根目录/data
-      dataPath = path.join(process.cwd(), 'data')
-    } else {
-      // 生产模式：可执行文件同级目录/data
-      dataPath = path.join(path.dirname(process.execPath), 'data')
-    }
+  // 参数有误时直接退出，不启动窗口也不转发给已运行的实例
+  const commandLine = parseCommandLine(args, process.cwd())
+  if (commandLine.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+  commandLine.warnings.forEach((warning) => console.warn(`0xNote: ${warning}`))
+  if (commandLine.errors.length > 0) {
+    commandLine.errors.forEach((error) => console.error(`0xNote: ${error}`))
+    console.error('使用 --help 查看用法')
+    process.exit(1)
+  }
 
-    app.setPath('userData', dataPath)
-    console.log(`[Main] UserData path set to: ${dataPath}`)
-  } catch (error) {
-    console.error('[Main] Failed to set UserData path:', error)
+  configureUserDataPath()
+
+  // ==================== 单实例 ====================
+  // 再次启动（如双击另一个 .md 文件）时，参数通过 second-instance 转发给已运行的实例
+  // 原始参数和工作目录放在 additionalData 中传递（argv 可能被 Chromium 追加额外的开关）
+  // ⚠️ 锁与 userData 目录绑定，必须在设置路径之后申请
+  const isPrimaryInstance = app.requestSingleInstanceLock({ args, cwd: process.cwd() })
+  if (!isPrimaryInstance) {
+    console.log('[Main] 已有实例在运行，启动参数已转发')
+    app.quit()
+  }
+
+  /**
+   * 窗口状态
+   */
+  interface WindowState {
+    /** 窗口的启动选项（要打开的文件、--new 目录等） */
+    launchOptions: LaunchOptions
+    /** 渲染进程是否已开始接收再次启动的参数 */
+    isReceivingLaunches: boolean
+    /** 渲染进程开始接收之前转发来的启动选项（窗口加载期间再次启动时） */
+    pendingLaunches: LaunchOptions[]
+    /** 渲染进程是否接管关闭流程（需要先保存恢复快照等） */
+    isCloseIntercepted: boolean
+    /** 渲染进程已确认，可以真正关闭 */
+    isCloseConfirmed: boolean
   }
 
-  // 主窗口引用
-  let mainWindow: BrowserWindow | null = null
+  // webContents ID -> 窗口状态
+  const windowStates = new Map<number, WindowState>()
+
+  // 最近获得焦点的窗口（接收转发的启动参数）
+  let lastFocusedWindow: BrowserWindow | null = null
 
   /**
-   * 创建主窗口
+   * 获取发起 IPC 调用的窗口
    */
-  function createWindow(): void {
+  const getSenderWindow = (event: Electron.IpcMainInvokeEvent) =>
+    BrowserWindow.fromWebContents(event.sender)
+
+  /**
+   * 创建窗口
+   * @param launchOptions 窗口的启动选项
+   */
+  function createWindow(launchOptions: LaunchOptions): BrowserWindow {
     // 移除默认菜单（加速启动）
     Menu.setApplicationMenu(null)
 
-    mainWindow = new BrowserWindow({
+    const win = new BrowserWindow({
       width: 1200,
       height: 800,
       minWidth: 1110,
@@ -95,23 +238,32 @@ if (isRegisterMode || isUnregisterMode) {
       },
     })
 
+    const contents = win.webContents
+    // 窗口关闭后 webContents 已销毁，不能再读取其 ID
+    const contentsId = contents.id
+    const state: WindowState = {
+      launchOptions,
+      isReceivingLaunches: false,
+      pendingLaunches: [],
+      isCloseIntercepted: false,
+      isCloseConfirmed: false,
+    }
+    windowStates.set(contentsId, state)
+    lastFocusedWindow = win
+
     // 优化：等待页面渲染完成后再显示窗口，避免白屏/闪烁
-    mainWindow.once('ready-to-show', () => {
-      mainWindow?.show()
+    win.once('ready-to-show', () => {
+      win.show()
     })
 
     // 加载页面
+    loadRendererPage(win)
     if (isDev) {
-      // 开发模式：加载开发服务器
-      mainWindow.loadURL('http://localhost:5173')
-      mainWindow.webContents.openDevTools()
-    } else {
-      // 生产模式：加载打包后的页面
-      mainWindow.loadFile(path.join(__dirname, '../dist/index.html'))
+      contents.openDevTools()
     }
 
     // 设置 Content-Security-Policy（消除安全警告）
-    mainWindow.webContents.session.webRequest.onHeadersReceived((details, callback) => {
+    contents.session.webRequest.onHeadersReceived((details, callback) => {
       callback({
         responseHeaders: {
           ...details.responseHeaders,
@@ -124,26 +276,95 @@ if (isRegisterMode || isUnregisterMode) {
       })
     })
 
+    // 关闭前交给渲染进程处理（保存恢复快照等），由其调用 window:confirmClose 完成关闭
+    win.on('close', (event) => {
+      if (state.isCloseIntercepted && !state.isCloseConfirmed) {
+        event.preventDefault()
+        contents.send('window:closeRequested')
+      }
+    })
+
+    // 页面重新加载或渲染进程崩溃后，不再等待其响应
+    contents.on('did-start-loading', () => {
+      state.isCloseIntercepted = false
+      state.isReceivingLaunches = false
+    })
+    contents.on('render-process-gone', () => {
+      state.isCloseIntercepted = false
+    })
+
+    // 窗口关闭后释放它占用的文件监听
+    contents.once('destroyed', () => {
+      releaseWatchers(contents)
+    })
+
+    win.on('focus', () => {
+      lastFocusedWindow = win
+    })
+
     // 窗口关闭时清除引用
-    mainWindow.on('closed', () => {
-      mainWindow = null
+    win.on('closed', () => {
+      windowStates.delete(contentsId)
+      if (lastFocusedWindow === win) {
+        lastFocusedWindow = null
+      }
     })
 
-    // 外部链接在默认浏览器打开
-    mainWindow.webContents.setWindowOpenHandler(({ url }) => {
-      shell.openExternal(url)
+    // 链接不在应用中打开新窗口：网页链接交给默认浏览器，笔记链接在应用内打开
+    contents.setWindowOpenHandler(({ url }) => {
+      handleOpenLink(contents, url)
       return { action: 'deny' }
     })
 
     // 监听窗口最大化状态变化，通知渲染进程
-    mainWindow.on('maximize', () => {
-      mainWindow?.webContents.send('window:maximizeChanged', true)
+    win.on('maximize', () => {
+      contents.send('window:maximizeChanged', true)
     })
-    mainWindow.on('unmaximize', () => {
-      mainWindow?.webContents.send('window:maximizeChanged', false)
+    win.on('unmaximize', () => {
+      contents.send('window:maximizeChanged', false)
     })
+
+    return win
   }
 
+  /**
+   * 转发再次启动的参数：还原并聚焦已有窗口，由渲染进程打开文件
+   * 相对路径按再次启动时的工作目录解析
+   */
+  app.on('second-instance', (_event, argv, workingDirectory, additionalData) => {
+    const data = additionalData as { args?: string[]; cwd?: string } | undefined
+    const commandLine = parseCommandLine(
+      data?.args ?? getUserArgs(argv),
+      data?.cwd ?? workingDirectory,
+    )
+    // 再次启动的实例已校验过参数，这里只记录，不影响已运行的实例
+    for (const message of [...commandLine.errors, ...commandLine.warnings]) {
+      console.warn(`[Main] 再次启动的参数: ${message}`)
+    }
+    const launchOptions = commandLine.options
+    console.log('[Main] 收到再次启动的参数:', launchOptions)
+
+    const target = lastFocusedWindow ?? BrowserWindow.getAllWindows()[0]
+    if (!target) {
+      createWindow(launchOptions)
+      return
+    }
+
+    if (target.isMinimized()) {
+      target.restore()
+    }
+    target.show()
+    target.focus()
+
+    // 窗口仍在加载时先排队，渲染进程注册监听后再发送
+    const state = windowStates.get(target.webContents.id)
+    if (state && !state.isReceivingLaunches) {
+      state.pendingLaunches.push(launchOptions)
+      return
+    }
+    target.webContents.send('app:secondInstance', launchOptions)
+  })
+
   // ==================== IPC Handlers ====================
 
   // ========== 窗口控制 ==========
@@ -151,43 +372,211 @@ if (isRegisterMode || isUnregisterMode) {
   /**
    * 最小化窗口
    */
-  ipcMain.handle('window:minimize', () => {
-    mainWindow?.minimize()
+  ipcMain.handle('window:minimize', (event) => {
+    getSenderWindow(event)?.minimize()
   })
 
   /**
    * 最大化/还原窗口
    */
-  ipcMain.handle('window:toggleMaximize', () => {
-    if (mainWindow?.isMaximized()) {
-      mainWindow.unmaximize()
+  ipcMain.handle('window:toggleMaximize', (event) => {
+    const win = getSenderWindow(event)
+    if (win?.isMaximized()) {
+      win.unmaximize()
     } else {
-      mainWindow?.maximize()
+      win?.maximize()
     }
   })
 
   /**
    * 关闭窗口
    */
-  ipcMain.handle('window:close', () => {
-    mainWindow?.close()
+  ipcMain.handle('window:close', (event) => {
+    getSenderWindow(event)?.close()
   })
 
   /**
    * 获取窗口最大化状态
    */
-  ipcMain.handle('window:isMaximized', () => {
-    return mainWindow?.isMaximized() ?? false
+  ipcMain.handle('window:isMaximized', (event) => {
+    return getSenderWindow(event)?.isMaximized() ?? false
+  })
+
+  /**
+   * 渲染进程接管关闭流程
+   */
+  ipcMain.handle('window:interceptClose', (event) => {
+    const state = windowStates.get(event.sender.id)
+    if (state) {
+      state.isCloseIntercepted = true
+    }
+  })
+
+  /**
+   * 渲染进程确认关闭
+   */
+  ipcMain.handle('window:confirmClose', (event) => {
+    const state = windowStates.get(event.sender.id)
+    if (state) {
+      state.isCloseConfirmed = true
+    }
+    getSenderWindow(event)?.close()
   })
 
+  // ========== 崩溃恢复 ==========
+
+  /**
+   * 快照存放在 userData/recovery/<会话 ID>/<文档 ID>.json
+   * 每个渲染进程实例是一个会话，仍在运行的会话不会被列为可恢复
+   */
+  const recoveryDir = path.join(app.getPath('userData'), 'recovery')
+
+  // webContents ID -> 会话 ID
+  const liveRecoverySessions = new Map<number, string>()
+
+  /**
+   * 记录仍在运行的会话
+   */
+  const registerRecoverySession = (sender: Electron.WebContents, sessionId: string) => {
+    if (!liveRecoverySessions.has(sender.id)) {
+      const senderId = sender.id
+      sender.once('destroyed', () => liveRecoverySessions.delete(senderId))
+    }
+    liveRecoverySessions.set(sender.id, sessionId)
+  }
+
+  /**
+   * 校验 ID，防止路径穿越
+   */
+  const isValidRecoveryId = (id: string) => /^[\w-]+$/.test(id)
 
   /**
-   * 读取文件
+   * 获取已结束的会话目录
    */
-  ipcMain.handle('fs:readFile', async (_event, filePath: string) => {
+  const getEndedRecoverySessions = async (): Promise<string[]> => {
+    const liveSessions = new Set(liveRecoverySessions.values())
     try {
-      const content = await fs.promises.readFile(filePath, 'utf-8')
+      const entries = await fs.promises.readdir(recoveryDir, { withFileTypes: true })
+      return entries
+        .filter((entry) => entry.isDirectory() && !liveSessions.has(entry.name))
+        .map((entry) => entry.name)
+    } catch {
+      return []
+    }
+  }
+
+  ipcMain.handle(
+    'recovery:save',
+    async (event, sessionId: string, snapshot: { documentId: string }) => {
+      if (!isValidRecoveryId(sessionId) || !isValidRecoveryId(snapshot.documentId)) {
+        return { success: false, error: '无效的快照 ID' }
+      }
+      registerRecoverySession(event.sender, sessionId)
+      try {
+        const sessionDir = path.join(recoveryDir, sessionId)
+        await fs.promises.mkdir(sessionDir, { recursive: true })
+        await writeFileAtomic(
+          path.join(sessionDir, `${snapshot.documentId}.json`),
+          JSON.stringify(snapshot),
+        )
+        return { success: true }
+      } catch (error) {
+        const err = error as NodeJS.ErrnoException
+        return { success: false, error: err.message }
+      }
+    },
+  )
+
+  ipcMain.handle('recovery:remove', async (_event, sessionId: string, documentId: string) => {
+    if (!isValidRecoveryId(sessionId) || !isValidRecoveryId(documentId)) {
+      return { success: false, error: '无效的快照 ID' }
+    }
+    await fs.promises.rm(path.join(recoveryDir, sessionId, `${documentId}.json`), { force: true })
+    return { success: true }
+  })
+
+  ipcMain.handle('recovery:clear', async (_event, sessionId: string) => {
+    if (!isValidRecoveryId(sessionId)) {
+      return { success: false, error: '无效的会话 ID' }
+    }
+    await fs.promises.rm(path.join(recoveryDir, sessionId), { recursive: true, force: true })
+    return { success: true }
+  })
+
+  ipcMain.handle('recovery:list', async (event, sessionId: string) => {
+    registerRecoverySession(event.sender, sessionId)
+    const snapshots: unknown[] = []
+    for (const session of await getEndedRecoverySessions()) {
+      const sessionDir = path.join(recoveryDir, session)
+      const names = await fs.promises.readdir(sessionDir).catch(() => [] as string[])
+      for (const name of names.filter((n) => n.endsWith('.json'))) {
+        try {
+          snapshots.push(JSON.parse(await fs.promises.readFile(path.join(sessionDir, name), 'utf-8')))
+        } catch (error) {
+          console.error(`[Main] 无法读取恢复快照 ${name}:`, error)
+        }
+      }
+    }
+    return { success: true, data: snapshots }
+  })
+
+  ipcMain.handle('recovery:discard', async (event, sessionId: string) => {
+    registerRecoverySession(event.sender, sessionId)
+    for (const session of await getEndedRecoverySessions()) {
+      await fs.promises.rm(path.join(recoveryDir, session), { recursive: true, force: true })
+    }
+    return { success: true }
+  })
+
+  // ========== 版本历史 ==========
+
+  /**
+   * 历史版本存放在 userData/history/<路径哈希>/
+   */
+  const historyDir = path.join(app.getPath('userData'), 'history')
+
+  ipcMain.handle(
+    'history:record',
+    async (_event, filePath: string, content: string, retention: HistoryRetention) => {
+      try {
+        const entry = await recordSnapshot(historyDir, filePath, content, retention)
+        return { success: true, data: entry }
+      } catch (error) {
+        const err = error as NodeJS.ErrnoException
+        return { success: false, error: err.message }
+      }
+    },
+  )
+
+  ipcMain.handle('history:list', async (_event, filePath: string) => {
+    try {
+      return { success: true, data: await listSnapshots(historyDir, filePath) }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message }
+    }
+  })
+
+  ipcMain.handle('history:read', async (_event, filePath: string, entryId: string) => {
+    try {
+      const content = await readSnapshot(historyDir, filePath, entryId)
+      if (content === null) {
+        return { success: false, error: '历史版本不存在' }
+      }
       return { success: true, data: content }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message }
+    }
+  })
+
+  /**
+   * 读取文件（自动检测或按指定编码解码，换行符统一为 LF），同时返回文本格式
+   */
+  ipcMain.handle('fs:readFile', async (_event, filePath: string, encoding?: TextEncoding) => {
+    try {
+      const buffer = await fs.promises.readFile(filePath)
+      return { success: true, data: decodeText(buffer, encoding) }
     } catch (error) {
       const err = error as NodeJS.ErrnoException
       return { success: false, error: err.message, errorCode: err.code }
@@ -195,11 +584,41 @@ if (isRegisterMode || isUnregisterMode) {
   })
 
   /**
-   * 写入文件
+   * 写入文件（按文本格式编码，原子写入，可选备份）
+   */
+  ipcMain.handle(
+    'fs:writeFile',
+    async (
+      _event,
+      filePath: string,
+      content: string,
+      options?: AtomicWriteOptions & { textFormat?: TextFormat },
+    ) => {
+      try {
+        const textFormat = options?.textFormat ?? { encoding: 'utf-8', hasBom: false, lineEnding: 'lf' }
+        if (!canEncode(content, textFormat.encoding)) {
+          return {
+            success: false,
+            error: `内容包含无法用 ${textFormat.encoding.toUpperCase()} 编码保存的字符`,
+            errorCode: 'EENCODING',
+          }
+        }
+        await writeFileAtomic(filePath, encodeText(content, textFormat), options)
+        return { success: true }
+      } catch (error) {
+        const err = error as NodeJS.ErrnoException
+        return { success: false, error: err.message, errorCode: err.code }
+      }
+    },
+  )
+
+  /**
+   * 写入二进制文件（如粘贴的图片，自动创建上级目录）
    */
-  ipcMain.handle('fs:writeFile', async (_event, filePath: string, content: string) => {
+  ipcMain.handle('fs:writeBinaryFile', async (_event, filePath: string, data: Uint8Array) => {
     try {
-      await fs.promises.writeFile(filePath, content, 'utf-8')
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await writeFileAtomic(filePath, Buffer.from(data.buffer, data.byteOffset, data.byteLength))
       return { success: true }
     } catch (error) {
       const err = error as NodeJS.ErrnoException
@@ -220,12 +639,17 @@ if (isRegisterMode || isUnregisterMode) {
   })
 
   /**
-   * 获取文件信息
+   * 获取文件信息（只查询文件状态，不读取内容；文本格式由 fs:readFile 返回）
    */
   ipcMain.handle('fs:getMetadata', async (_event, filePath: string) => {
     try {
       const stats = await fs.promises.stat(filePath)
       const fileName = path.basename(filePath)
+      // Windows 下只读属性同样会使 W_OK 检查失败
+      const isReadOnly = await fs.promises.access(filePath, fs.constants.W_OK).then(
+        () => false,
+        () => true,
+      )
       return {
         success: true,
         data: {
@@ -233,7 +657,7 @@ if (isRegisterMode || isUnregisterMode) {
           filePath,
           size: stats.size,
           lastModified: stats.mtimeMs,
-          isReadOnly: false, // TODO: 检查只读属性
+          isReadOnly,
         },
       }
     } catch (error) {
@@ -242,11 +666,59 @@ if (isRegisterMode || isUnregisterMode) {
     }
   })
 
+  /**
+   * 取消文件的只读状态（加上属主写权限，Windows 下即清除只读属性）
+   */
+  ipcMain.handle('fs:makeWritable', async (_event, filePath: string) => {
+    try {
+      const stats = await fs.promises.stat(filePath)
+      await fs.promises.chmod(filePath, (stats.mode & 0o7777) | 0o200)
+      await fs.promises.access(filePath, fs.constants.W_OK)
+      return { success: true }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message, errorCode: err.code }
+    }
+  })
+
+  /**
+   * 列出目录内容（不递归）
+   */
+  ipcMain.handle('fs:readDirectory', async (_event, dirPath: string) => {
+    try {
+      const dirents = await fs.promises.readdir(dirPath, { withFileTypes: true })
+      const entries = dirents
+        .filter((dirent) => dirent.isDirectory() || dirent.isFile())
+        .map((dirent) => ({
+          name: dirent.name,
+          path: path.join(dirPath, dirent.name),
+          isDirectory: dirent.isDirectory(),
+        }))
+      return { success: true, data: entries }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message, errorCode: err.code }
+    }
+  })
+
+  /**
+   * 创建目录
+   */
+  ipcMain.handle('fs:createDirectory', async (_event, dirPath: string) => {
+    try {
+      await fs.promises.mkdir(dirPath)
+      return { success: true }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message, errorCode: err.code }
+    }
+  })
+
   /**
    * 打开文件对话框
    */
-  ipcMain.handle('dialog:openFile', async () => {
-    const result = await dialog.showOpenDialog(mainWindow!, {
+  ipcMain.handle('dialog:openFile', async (event) => {
+    const result = await dialog.showOpenDialog(getSenderWindow(event)!, {
       title: '打开 Markdown 文档',
       filters: [
         { name: 'Markdown', extensions: ['md', 'markdown'] },
@@ -264,8 +736,8 @@ if (isRegisterMode || isUnregisterMode) {
   /**
    * 保存文件对话框
    */
-  ipcMain.handle('dialog:saveFile', async (_event, defaultFileName: string) => {
-    const result = await dialog.showSaveDialog(mainWindow!, {
+  ipcMain.handle('dialog:saveFile', async (event, defaultFileName: string) => {
+    const result = await dialog.showSaveDialog(getSenderWindow(event)!, {
       title: '保存 Markdown 文档',
       defaultPath: defaultFileName,
       filters: [
@@ -281,23 +753,62 @@ if (isRegisterMode || isUnregisterMode) {
   })
 
   /**
-   * 获取启动参数（用于右键打开文件）
+   * 打开文件夹对话框
    */
-  ipcMain.handle('app:getLaunchArgs', () => {
-    return process.argv.slice(isDev ? 2 : 1)
+  ipcMain.handle('dialog:openFolder', async (event) => {
+    const result = await dialog.showOpenDialog(getSenderWindow(event)!, {
+      title: '打开文件夹',
+      properties: ['openDirectory'],
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, error: '用户取消' }
+    }
+    return { success: true, data: result.filePaths[0] }
   })
 
   /**
-   * 获取 --new 参数指定的目录（从右键菜单新建文件）
+   * 获取当前窗口的启动选项（右键打开的文件、--new 目录等）
    */
-  ipcMain.handle('app:getNewFileDirectory', () => {
-    if (isNewFileMode) {
-      const newIndex = args.indexOf('--new')
-      if (newIndex !== -1 && args[newIndex + 1]) {
-        return args[newIndex + 1]
-      }
+  ipcMain.handle('app:getLaunchOptions', (event) => {
+    return windowStates.get(event.sender.id)?.launchOptions ?? createEmptyLaunchOptions()
+  })
+
+  /**
+   * 渲染进程已注册再次启动的监听：依次发送排队的启动选项
+   */
+  ipcMain.handle('app:receiveSecondInstances', (event) => {
+    const state = windowStates.get(event.sender.id)
+    if (!state) return
+    state.isReceivingLaunches = true
+    for (const launchOptions of state.pendingLaunches.splice(0)) {
+      event.sender.send('app:secondInstance', launchOptions)
+    }
+  })
+
+  /**
+   * 在新窗口中处理启动选项（"每个文件使用新窗口"设置）
+   */
+  ipcMain.handle('app:openWindow', (_event, launchOptions: LaunchOptions) => {
+    createWindow(launchOptions)
+  })
+
+  /**
+   * 读取新建文件模板（userData/templates/<名称>.md）
+   */
+  const templatesDir = path.join(app.getPath('userData'), 'templates')
+
+  ipcMain.handle('app:readTemplate', async (_event, name: string) => {
+    if (path.basename(name) !== name) {
+      return { success: false, error: `无效的模板名称: ${name}` }
+    }
+    try {
+      const buffer = await fs.promises.readFile(path.join(templatesDir, `${name}.md`))
+      return { success: true, data: decodeText(buffer).content }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message, errorCode: err.code }
     }
-    return null
   })
 
   // ==================== 注册表集成 ====================
@@ -347,38 +858,218 @@ if (isRegisterMode || isUnregisterMode) {
 
   /**
    * 监听文件变化
+   * - change：读取新内容，发送 file:changed
+   * - rename：许多编辑器以"写入临时文件再改名覆盖"的方式保存，此时原路径依然存在，
+   *   需要对新文件重新建立监听；原路径不存在时按 inode 在同目录中查找改名后的文件，
+   *   发送 file:removed（newPath 为 null 表示文件已被删除）
    */
   const activeWatchers = new Map<string, fs.FSWatcher>()
 
-  ipcMain.handle('fs:watchFile', (_event, filePath: string) => {
+  /** 监听中的文件使用的编码（未指定时自动检测） */
+  const watchedEncodings = new Map<string, TextEncoding>()
+
+  // 路径 -> 监听它的窗口（多个窗口可能打开同一个文件或文件夹）
+  const fileSubscribers = new Map<string, Set<Electron.WebContents>>()
+  const directorySubscribers = new Map<string, Set<Electron.WebContents>>()
+
+  const subscribe = (
+    subscribers: Map<string, Set<Electron.WebContents>>,
+    key: string,
+    contents: Electron.WebContents,
+  ) => {
+    const set = subscribers.get(key) ?? new Set()
+    set.add(contents)
+    subscribers.set(key, set)
+  }
+
+  /**
+   * 取消订阅，返回是否已没有窗口在监听
+   */
+  const unsubscribe = (
+    subscribers: Map<string, Set<Electron.WebContents>>,
+    key: string,
+    contents: Electron.WebContents,
+  ): boolean => {
+    const set = subscribers.get(key)
+    set?.delete(contents)
+    if (set?.size) return false
+    subscribers.delete(key)
+    return true
+  }
+
+  const notifySubscribers = (
+    subscribers: Map<string, Set<Electron.WebContents>>,
+    key: string,
+    channel: string,
+    payload: unknown,
+  ) => {
+    for (const contents of subscribers.get(key) ?? []) {
+      if (!contents.isDestroyed()) {
+        contents.send(channel, payload)
+      }
+    }
+  }
+
+  const sendFileContent = (filePath: string) => {
+    fs.readFile(filePath, (err, data) => {
+      if (!err) {
+        const { content } = decodeText(data, watchedEncodings.get(filePath))
+        notifySubscribers(fileSubscribers, filePath, 'file:changed', { filePath, content })
+      }
+    })
+  }
+
+  /**
+   * 在原目录中查找 inode 相同的文件（即被改名后的文件）
+   */
+  const findRenamedFile = async (filePath: string, ino: bigint): Promise<string | null> => {
+    const dirPath = path.dirname(filePath)
+    try {
+      const names = await fs.promises.readdir(dirPath)
+      for (const name of names) {
+        const candidate = path.join(dirPath, name)
+        const stats = await fs.promises.stat(candidate, { bigint: true }).catch(() => null)
+        if (stats?.isFile() && stats.ino === ino) {
+          return candidate
+        }
+      }
+    } catch {
+      // 目录本身已不存在
+    }
+    return null
+  }
+
+  const startFileWatcher = (filePath: string) => {
+    const { ino } = fs.statSync(filePath, { bigint: true })
+    let fsWait: NodeJS.Timeout | null = null
+    let renamed = false
+
+    const watcher = fs.watch(filePath, (eventType) => {
+      if (eventType === 'rename') {
+        renamed = true
+      }
+      if (fsWait) return
+      fsWait = setTimeout(async () => {
+        fsWait = null
+        // 期间已取消监听
+        if (activeWatchers.get(filePath) !== watcher) return
+
+        if (!renamed) {
+          sendFileContent(filePath)
+          return
+        }
+        renamed = false
+
+        // 原监听指向旧的 inode，已失效
+        watcher.close()
+        activeWatchers.delete(filePath)
+
+        if (fs.existsSync(filePath)) {
+          try {
+            startFileWatcher(filePath)
+          } catch (error) {
+            console.error(`[Main] Rewatch failed for ${filePath}:`, error)
+          }
+          sendFileContent(filePath)
+          return
+        }
+
+        const newPath = await findRenamedFile(filePath, ino)
+        console.log(`[Main] 文件${newPath ? '被改名' : '被删除'}: ${filePath}`)
+        notifySubscribers(fileSubscribers, filePath, 'file:removed', { filePath, newPath })
+      }, 100)
+    })
+
+    // 处理错误，防止崩溃
+    watcher.on('error', (error) => {
+      console.error(`[Main] Watcher error for ${filePath}:`, error)
+      watcher.close()
+      if (activeWatchers.get(filePath) === watcher) {
+        activeWatchers.delete(filePath)
+      }
+    })
+
+    activeWatchers.set(filePath, watcher)
+  }
+
+  ipcMain.handle('fs:watchFile', (event, filePath: string, encoding?: TextEncoding) => {
+    subscribe(fileSubscribers, filePath, event.sender)
+    if (encoding) {
+      watchedEncodings.set(filePath, encoding)
+    } else {
+      watchedEncodings.delete(filePath)
+    }
+
     if (activeWatchers.has(filePath)) {
       return { success: true }
     }
 
+    try {
+      startFileWatcher(filePath)
+      return { success: true }
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException
+      return { success: false, error: err.message }
+    }
+  })
+
+  /**
+   * 取消监听文件
+   */
+  const closeFileWatcher = (filePath: string) => {
+    activeWatchers.get(filePath)?.close()
+    activeWatchers.delete(filePath)
+    watchedEncodings.delete(filePath)
+  }
+
+  ipcMain.handle('fs:unwatchFile', (event, filePath: string) => {
+    // 其他窗口仍在监听时保留
+    if (unsubscribe(fileSubscribers, filePath, event.sender)) {
+      closeFileWatcher(filePath)
+    }
+    return { success: true }
+  })
+
+  /**
+   * 监听目录（递归）
+   * 只关心文件/目录的增删改名，内容修改由 fs:watchFile 负责
+   */
+  const activeDirectoryWatchers = new Map<string, fs.FSWatcher>()
+
+  ipcMain.handle('fs:watchDirectory', (event, dirPath: string) => {
+    subscribe(directorySubscribers, dirPath, event.sender)
+    if (activeDirectoryWatchers.has(dirPath)) {
+      return { success: true }
+    }
+
     try {
       let fsWait: NodeJS.Timeout | null = null
-      const watcher = fs.watch(filePath, (eventType) => {
-        if (eventType === 'change') {
-          if (fsWait) return
-          fsWait = setTimeout(() => {
-            fsWait = null
-            fs.readFile(filePath, 'utf-8', (err, data) => {
-              if (!err && mainWindow) {
-                mainWindow.webContents.send('file:changed', { filePath, content: data })
-              }
-            })
-          }, 100)
-        }
+      const changedPaths = new Set<string>()
+
+      const watcher = fs.watch(dirPath, { recursive: true }, (eventType, fileName) => {
+        if (eventType !== 'rename' || !fileName) return
+
+        changedPaths.add(path.join(dirPath, fileName.toString()))
+        if (fsWait) return
+        // 批量合并短时间内的多次变化（如解压、git checkout）
+        fsWait = setTimeout(() => {
+          fsWait = null
+          const paths = [...changedPaths]
+          changedPaths.clear()
+          notifySubscribers(directorySubscribers, dirPath, 'directory:changed', {
+            dirPath,
+            changedPaths: paths,
+          })
+        }, 200)
       })
 
-      // 处理错误，防止崩溃
       watcher.on('error', (error) => {
-        console.error(`[Main] Watcher error for ${filePath}:`, error)
+        console.error(`[Main] Directory watcher error for ${dirPath}:`, error)
         watcher.close()
-        activeWatchers.delete(filePath)
+        activeDirectoryWatchers.delete(dirPath)
       })
 
-      activeWatchers.set(filePath, watcher)
+      activeDirectoryWatchers.set(dirPath, watcher)
       return { success: true }
     } catch (error) {
       const err = error as NodeJS.ErrnoException
@@ -387,21 +1078,43 @@ if (isRegisterMode || isUnregisterMode) {
   })
 
   /**
-   * 取消监听文件
+   * 取消监听目录
    */
-  ipcMain.handle('fs:unwatchFile', (_event, filePath: string) => {
-    const watcher = activeWatchers.get(filePath)
-    if (watcher) {
-      watcher.close()
-      activeWatchers.delete(filePath)
+  const closeDirectoryWatcher = (dirPath: string) => {
+    activeDirectoryWatchers.get(dirPath)?.close()
+    activeDirectoryWatchers.delete(dirPath)
+  }
+
+  ipcMain.handle('fs:unwatchDirectory', (event, dirPath: string) => {
+    if (unsubscribe(directorySubscribers, dirPath, event.sender)) {
+      closeDirectoryWatcher(dirPath)
     }
     return { success: true }
   })
 
+  /**
+   * 释放窗口的所有文件和目录监听
+   */
+  function releaseWatchers(contents: Electron.WebContents): void {
+    for (const filePath of [...fileSubscribers.keys()]) {
+      if (unsubscribe(fileSubscribers, filePath, contents)) {
+        closeFileWatcher(filePath)
+      }
+    }
+    for (const dirPath of [...directorySubscribers.keys()]) {
+      if (unsubscribe(directorySubscribers, dirPath, contents)) {
+        closeDirectoryWatcher(dirPath)
+      }
+    }
+  }
+
   // ==================== 生命周期 ====================
 
   app.whenReady().then(async () => {
-    createWindow()
+    // 已转发给运行中的实例，正在退出
+    if (!isPrimaryInstance) return
+
+    createWindow(commandLine.options)
 
     // ⚠️ Windows 集成（文件关联 + 右键菜单）已移至 NSIS 安装脚本处理
     // 参见 build/installer.nsh
@@ -410,7 +1123,7 @@ if (isRegisterMode || isUnregisterMode) {
     // macOS: 点击 dock 图标时重新创建窗口
     app.on('activate', () => {
       if (BrowserWindow.getAllWindows().length === 0) {
-        createWindow()
+        createWindow(createEmptyLaunchOptions())
       }
     })
   })
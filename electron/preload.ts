@@ -7,6 +7,10 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron'
+import type { AtomicWriteOptions } from './atomicWrite'
+import type { LaunchOptions } from './cli'
+import type { ExportRenderRequest } from './exporter'
+import type { TextEncoding, TextFormat } from './textEncoding'
 
 /**
  * 暴露给渲染进程的 API
@@ -14,27 +18,60 @@ import { contextBridge, ipcRenderer } from 'electron'
 const electronAPI = {
     // ========== 文件系统 ==========
     fs: {
-        readFile: (filePath: string) => ipcRenderer.invoke('fs:readFile', filePath),
-        writeFile: (filePath: string, content: string) =>
-            ipcRenderer.invoke('fs:writeFile', filePath, content),
+        readFile: (filePath: string, encoding?: TextEncoding) =>
+            ipcRenderer.invoke('fs:readFile', filePath, encoding),
+        writeFile: (
+            filePath: string,
+            content: string,
+            options?: AtomicWriteOptions & { textFormat?: TextFormat },
+        ) =>
+            ipcRenderer.invoke('fs:writeFile', filePath, content, options),
+        writeBinaryFile: (filePath: string, data: Uint8Array) =>
+            ipcRenderer.invoke('fs:writeBinaryFile', filePath, data),
         exists: (filePath: string) => ipcRenderer.invoke('fs:exists', filePath),
         getMetadata: (filePath: string) => ipcRenderer.invoke('fs:getMetadata', filePath),
-        watchFile: (filePath: string) => ipcRenderer.invoke('fs:watchFile', filePath),
+        makeWritable: (filePath: string) => ipcRenderer.invoke('fs:makeWritable', filePath),
+        watchFile: (filePath: string, encoding?: TextEncoding) =>
+            ipcRenderer.invoke('fs:watchFile', filePath, encoding),
         unwatchFile: (filePath: string) => ipcRenderer.invoke('fs:unwatchFile', filePath),
         onFileChanged: (callback: (filePath: string, content: string) => void) => {
             ipcRenderer.on('file:changed', (_event, data) => callback(data.filePath, data.content))
         },
+        onFileRemoved: (callback: (filePath: string, newPath: string | null) => void) => {
+            ipcRenderer.on('file:removed', (_event, data) => callback(data.filePath, data.newPath))
+        },
+        readDirectory: (dirPath: string) => ipcRenderer.invoke('fs:readDirectory', dirPath),
+        createDirectory: (dirPath: string) => ipcRenderer.invoke('fs:createDirectory', dirPath),
+        watchDirectory: (dirPath: string) => ipcRenderer.invoke('fs:watchDirectory', dirPath),
+        unwatchDirectory: (dirPath: string) => ipcRenderer.invoke('fs:unwatchDirectory', dirPath),
+        onDirectoryChanged: (callback: (dirPath: string, changedPaths: string[]) => void) => {
+            ipcRenderer.on('directory:changed', (_event, data) =>
+                callback(data.dirPath, data.changedPaths),
+            )
+        },
     },
 
     // ========== 对话框 ==========
     dialog: {
         openFile: () => ipcRenderer.invoke('dialog:openFile'),
         saveFile: (defaultFileName: string) => ipcRenderer.invoke('dialog:saveFile', defaultFileName),
+        openFolder: () => ipcRenderer.invoke('dialog:openFolder'),
     },
 
     // ========== 应用 ==========
     app: {
-        getLaunchArgs: () => ipcRenderer.invoke('app:getLaunchArgs'),
+        getLaunchOptions: () => ipcRenderer.invoke('app:getLaunchOptions'),
+        openWindow: (launchOptions: LaunchOptions) =>
+            ipcRenderer.invoke('app:openWindow', launchOptions),
+        onSecondInstance: (callback: (launchOptions: LaunchOptions) => void) => {
+            ipcRenderer.on('app:secondInstance', (_event, launchOptions) => callback(launchOptions))
+            // 监听注册后才开始接收（主进程先发送窗口加载期间排队的参数）
+            ipcRenderer.invoke('app:receiveSecondInstances')
+        },
+        readTemplate: (name: string) => ipcRenderer.invoke('app:readTemplate', name),
+        onOpenNote: (callback: (filePath: string, heading: string | null) => void) => {
+            ipcRenderer.on('app:openNote', (_event, filePath, heading) => callback(filePath, heading))
+        },
     },
 
     // ========== 窗口控制 ==========
@@ -46,6 +83,40 @@ const electronAPI = {
         onMaximizeChange: (callback: (isMaximized: boolean) => void) => {
             ipcRenderer.on('window:maximizeChanged', (_event, isMaximized) => callback(isMaximized))
         },
+        onCloseRequested: (callback: () => void) => {
+            ipcRenderer.on('window:closeRequested', () => callback())
+            ipcRenderer.invoke('window:interceptClose')
+        },
+        confirmClose: () => ipcRenderer.invoke('window:confirmClose'),
+    },
+
+    // ========== 崩溃恢复 ==========
+    recovery: {
+        save: (sessionId: string, snapshot: unknown) =>
+            ipcRenderer.invoke('recovery:save', sessionId, snapshot),
+        remove: (sessionId: string, documentId: string) =>
+            ipcRenderer.invoke('recovery:remove', sessionId, documentId),
+        clear: (sessionId: string) => ipcRenderer.invoke('recovery:clear', sessionId),
+        list: (sessionId: string) => ipcRenderer.invoke('recovery:list', sessionId),
+        discard: (sessionId: string) => ipcRenderer.invoke('recovery:discard', sessionId),
+    },
+
+    // ========== 无界面导出 ==========
+    exporter: {
+        onRenderRequest: (callback: (request: ExportRenderRequest) => void) => {
+            ipcRenderer.on('export:render', (_event, request) => callback(request))
+        },
+        sendResult: (requestId: number, result: unknown) =>
+            ipcRenderer.invoke('export:result', requestId, result),
+        ready: () => ipcRenderer.invoke('export:ready'),
+    },
+
+    // ========== 版本历史 ==========
+    history: {
+        record: (filePath: string, content: string, retention: unknown) =>
+            ipcRenderer.invoke('history:record', filePath, content, retention),
+        list: (filePath: string) => ipcRenderer.invoke('history:list', filePath),
+        read: (filePath: string, entryId: string) => ipcRenderer.invoke('history:read', filePath, entryId),
     },
 }
 
@@ -0,0 +1,139 @@
+// electron/textEncoding.ts
+/**
+ * 🔤 文本编码模块
+ *
+ * 读取时检测编码、BOM 和换行符，编辑器内部统一使用 LF；
+ * 保存时按文件原有（或用户选择）的格式写回，避免：
+ * - 旧版中文工具保存的 GBK/GB18030 文件显示为乱码
+ * - UTF-8 BOM 被丢弃
+ * - CRLF 文件被改成 LF
+ *
+ * 【检测规则】
+ * 1. 有 BOM：按 BOM 判断（UTF-8 / UTF-16 LE / UTF-16 BE）
+ * 2. 无 BOM 但是合法的 UTF-8：UTF-8
+ * 3. 大量 0x00 字节：无 BOM 的 UTF-16
+ * 4. 其余：GB18030（兼容 GBK/GB2312）
+ */
+
+import iconv from 'iconv-lite'
+
+/**
+ * 支持的文本编码
+ */
+export type TextEncoding =
+  | 'utf-8'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'gb18030'
+  | 'gbk'
+  | 'big5'
+  | 'shift_jis'
+  | 'euc-kr'
+  | 'windows-1252'
+
+/**
+ * 换行符
+ */
+export type LineEnding = 'lf' | 'crlf'
+
+/**
+ * 文本格式
+ */
+export interface TextFormat {
+  encoding: TextEncoding
+  hasBom: boolean
+  lineEnding: LineEnding
+}
+
+/** 可以带 BOM 的编码 */
+const BOM_ENCODINGS = new Set<TextEncoding>(['utf-8', 'utf-16le', 'utf-16be'])
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * 根据 BOM 判断编码
+ */
+function detectBom(buffer: Buffer): TextEncoding | null {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8'
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le'
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be'
+  return null
+}
+
+/**
+ * 检测无 BOM 的编码
+ */
+function detectEncoding(buffer: Buffer): TextEncoding {
+  try {
+    utf8Decoder.decode(buffer)
+    return 'utf-8'
+  } catch {
+    // 不是合法的 UTF-8
+  }
+
+  // UTF-16 的 ASCII 字符有一半字节是 0x00
+  const sample = buffer.subarray(0, 4096)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++
+      else oddZeros++
+    }
+  }
+  const threshold = sample.length / 4
+  if (oddZeros > threshold && evenZeros < oddZeros / 4) return 'utf-16le'
+  if (evenZeros > threshold && oddZeros < evenZeros / 4) return 'utf-16be'
+
+  return 'gb18030'
+}
+
+/**
+ * 根据出现次数较多的一种判断换行符
+ */
+function detectLineEnding(text: string): LineEnding {
+  const crlfCount = text.match(/\r\n/g)?.length ?? 0
+  const lfCount = (text.match(/\n/g)?.length ?? 0) - crlfCount
+  return crlfCount > lfCount ? 'crlf' : 'lf'
+}
+
+/**
+ * 解码文件内容
+ * @param buffer 文件字节
+ * @param encoding 指定编码（默认自动检测）
+ * @returns 换行符统一为 LF 的文本，以及文件的格式
+ */
+export function decodeText(
+  buffer: Buffer,
+  encoding?: TextEncoding,
+): { content: string; format: TextFormat } {
+  const bomEncoding = detectBom(buffer)
+  const resolvedEncoding = encoding ?? bomEncoding ?? detectEncoding(buffer)
+  const hasBom = bomEncoding !== null && bomEncoding === resolvedEncoding
+
+  const text = iconv.decode(buffer, resolvedEncoding, { stripBOM: hasBom })
+  return {
+    content: text.replace(/\r\n/g, '\n'),
+    format: { encoding: resolvedEncoding, hasBom, lineEnding: detectLineEnding(text) },
+  }
+}
+
+/**
+ * 按格式编码文本
+ * @param content 文本（LF 或 CRLF 换行均可）
+ * @param format 目标格式
+ */
+export function encodeText(content: string, format: TextFormat): Buffer {
+  const normalized = content.replace(/\r\n/g, '\n')
+  const text = format.lineEnding === 'crlf' ? normalized.replace(/\n/g, '\r\n') : normalized
+  return iconv.encode(text, format.encoding, {
+    addBOM: format.hasBom && BOM_ENCODINGS.has(format.encoding),
+  })
+}
+
+/**
+ * 检查文本能否用指定编码无损保存
+ */
+export function canEncode(content: string, encoding: TextEncoding): boolean {
+  return iconv.decode(iconv.encode(content, encoding), encoding) === content
+}
@@ -18,6 +18,7 @@
 
 import { HighlightStyle, syntaxHighlighting } from '@codemirror/language'
 import { tags as t } from '@lezer/highlight'
+import { mathTag } from './mathSyntax'
 
 /**
  * VS Code Dark+ 主题配色常量
@@ -154,6 +155,13 @@ export const vscodeMarkdownHighlightStyle = HighlightStyle.define([
         fontFamily: 'Consolas, "Courier New", monospace',
     },
 
+    // ========== 数学公式 (Math) ==========
+    // $a*b*c$、$$...$$（公式中的 * 不按强调处理）
+    {
+        tag: mathTag,
+        color: VSCodeColors.lightOrange,
+    },
+
     // ========== 元字符和标记 ==========
     // 特殊标记符号 (如 #, *, `, > 等)
     {
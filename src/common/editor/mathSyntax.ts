@@ -0,0 +1,101 @@
+// src/common/editor/mathSyntax.ts
+/**
+ * ➗ 编辑器中的数学公式语法
+ *
+ * 为 @lezer/markdown 增加 InlineMath / BlockMath 节点，定界规则与预览
+ * （common/markdown/math.ts）一致。公式优先于强调解析，
+ * 因此 $a*b*c$ 中的 * 不会被当作斜体。
+ */
+
+import { BLOCK_MATH_OPEN, isBlockMathClose, scanInlineMath } from '@/common/markdown/math'
+import { Tag, tags as t } from '@lezer/highlight'
+import type { BlockContext, Line, MarkdownConfig } from '@lezer/markdown'
+
+/**
+ * 公式内容的语法标签（编辑器高亮样式中使用）
+ */
+export const mathTag = Tag.define()
+
+/**
+ * 块级公式是否有结束行（只读取文本，不移动解析位置）
+ * 没有结束行的 $$ 按普通文本处理，与预览一致
+ * @param cx 块级解析上下文
+ * @param line 起始行
+ */
+function hasBlockMathClose(cx: BlockContext, line: Line): boolean {
+  if (isBlockMathClose(line.text.slice(line.pos + 2))) return true
+
+  // BlockContext 只公开了向后查看一行的 peekLine，这里直接读取其内部的输入文本
+  const { input } = cx as unknown as {
+    input: { length: number; read(from: number, to: number): string }
+  }
+  const text = input.read(cx.lineStart + line.text.length, input.length)
+  for (let start = 1; start <= text.length; ) {
+    const end = text.indexOf('\n', start)
+    if (isBlockMathClose(text.slice(start, end === -1 ? text.length : end))) return true
+    if (end === -1) break
+    start = end + 1
+  }
+  return false
+}
+
+/**
+ * Markdown 数学公式扩展
+ */
+export const mathExtension: MarkdownConfig = {
+  defineNodes: [
+    { name: 'InlineMath', style: mathTag },
+    { name: 'BlockMath', block: true, style: mathTag },
+    { name: 'MathMark', style: t.processingInstruction },
+  ],
+  parseInline: [
+    {
+      name: 'InlineMath',
+      before: 'Emphasis',
+      parse(cx, next, pos) {
+        if (next !== 36 /* $ */) return -1
+        const match = scanInlineMath(cx.text, pos - cx.offset, cx.end - cx.offset)
+        if (!match) return -1
+
+        const end = match.end + cx.offset
+        return cx.addElement(
+          cx.elt('InlineMath', pos, end, [
+            cx.elt('MathMark', pos, pos + match.markLength),
+            cx.elt('MathMark', end - match.markLength, end),
+          ]),
+        )
+      },
+    },
+  ],
+  parseBlock: [
+    {
+      name: 'BlockMath',
+      before: 'FencedCode',
+      parse(cx, line) {
+        // 缩进代码块中的 $$ 不处理
+        if (line.indent - line.baseIndent >= 4) return false
+        if (!BLOCK_MATH_OPEN.test(line.text.slice(line.basePos))) return false
+        if (!hasBlockMathClose(cx, line)) return false
+
+        const from = cx.lineStart + line.pos
+        let to = cx.lineStart + line.text.length
+        let closed = isBlockMathClose(line.text.slice(line.pos + 2))
+        while (!closed && cx.nextLine()) {
+          to = cx.lineStart + line.text.length
+          closed = isBlockMathClose(line.text)
+        }
+        cx.nextLine()
+        cx.addElement(cx.elt('BlockMath', from, to))
+        return true
+      },
+      // 与围栏代码块一样可以直接打断段落
+      endLeaf(cx, line) {
+        return (
+          line.indent - line.baseIndent < 4 &&
+          BLOCK_MATH_OPEN.test(line.text.slice(line.basePos)) &&
+          hasBlockMathClose(cx, line)
+        )
+      },
+    },
+  ],
+}
@@ -16,7 +16,8 @@
 
 import { HighlightStyle, syntaxHighlighting } from '@codemirror/language'
 import { EditorView } from '@codemirror/view'
-import { tags as t } from '@lezer/highlight'
+import { tags as t, type Tag } from '@lezer/highlight'
+import { mathTag } from './mathSyntax'
 
 /**
  * 主题配色接口
@@ -60,6 +61,20 @@ export interface ThemeColors {
   error: string
 }
 
+/**
+ * 代码语法高亮使用的配色
+ */
+export type CodeColorKey =
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'function'
+  | 'variable'
+  | 'type'
+  | 'operator'
+  | 'error'
+
 /**
  * 主题定义接口
  */
@@ -444,6 +459,33 @@ export function createEditorTheme(colors: ThemeColors, fontSize: number, fontFam
   )
 }
 
+/**
+ * 代码块语法高亮规则：Lezer 标签对应的主题配色
+ * 编辑器与预览（common/markdown/codeHighlight.ts）共用，保证两边配色一致
+ */
+export const CODE_HIGHLIGHT_RULES: {
+  tag: Tag
+  color: CodeColorKey
+  fontStyle?: 'italic'
+}[] = [
+  { tag: t.keyword, color: 'keyword' },
+  { tag: t.operator, color: 'operator' },
+  { tag: t.comment, color: 'comment', fontStyle: 'italic' },
+  { tag: t.string, color: 'string' },
+  { tag: t.number, color: 'number' },
+  { tag: t.bool, color: 'keyword' },
+  { tag: t.function(t.variableName), color: 'function' },
+  { tag: t.className, color: 'type' },
+  { tag: t.typeName, color: 'type' },
+  { tag: t.propertyName, color: 'variable' },
+  { tag: t.variableName, color: 'variable' },
+  { tag: t.definition(t.variableName), color: 'variable' },
+  { tag: t.tagName, color: 'keyword' },
+  { tag: t.attributeName, color: 'variable' },
+  { tag: t.attributeValue, color: 'string' },
+  { tag: t.invalid, color: 'error' },
+]
+
 /**
  * 根据主题配色创建语法高亮样式
  */
@@ -527,6 +569,12 @@ export function createHighlightStyle(colors: ThemeColors) {
       fontFamily: 'Consolas, "Courier New", monospace',
     },
 
+    // ========== 数学公式 ==========
+    {
+      tag: mathTag,
+      color: colors.code,
+    },
+
     // ========== 元字符 ==========
     {
       tag: t.meta,
@@ -542,71 +590,11 @@ export function createHighlightStyle(colors: ThemeColors) {
     },
 
     // ========== 代码块语法高亮 ==========
-    {
-      tag: t.keyword,
-      color: colors.keyword,
-    },
-    {
-      tag: t.operator,
-      color: colors.operator,
-    },
-    {
-      tag: t.comment,
-      color: colors.comment,
-      fontStyle: 'italic',
-    },
-    {
-      tag: t.string,
-      color: colors.string,
-    },
-    {
-      tag: t.number,
-      color: colors.number,
-    },
-    {
-      tag: t.bool,
-      color: colors.keyword,
-    },
-    {
-      tag: t.function(t.variableName),
-      color: colors.function,
-    },
-    {
-      tag: t.className,
-      color: colors.type,
-    },
-    {
-      tag: t.typeName,
-      color: colors.type,
-    },
-    {
-      tag: t.propertyName,
-      color: colors.variable,
-    },
-    {
-      tag: t.variableName,
-      color: colors.variable,
-    },
-    {
-      tag: t.definition(t.variableName),
-      color: colors.variable,
-    },
-    {
-      tag: t.tagName,
-      color: colors.keyword,
-    },
-    {
-      tag: t.attributeName,
-      color: colors.variable,
-    },
-    {
-      tag: t.attributeValue,
-      color: colors.string,
-    },
-    {
-      tag: t.invalid,
-      color: colors.error,
-    },
+    ...CODE_HIGHLIGHT_RULES.map(({ tag, color, fontStyle }) => ({
+      tag,
+      color: colors[color],
+      fontStyle,
+    })),
   ])
 }
 
@@ -644,5 +632,15 @@ export function generatePreviewCssVars(themeId: string): Record<string, string>
     '--preview-quote-bg': c.accentDim,
     '--preview-border': c.gutterBorder,
     '--preview-selection': c.selectionBackground,
+    // 代码块语法高亮
+    '--preview-syntax-keyword': c.keyword,
+    '--preview-syntax-string': c.string,
+    '--preview-syntax-number': c.number,
+    '--preview-syntax-comment': c.comment,
+    '--preview-syntax-function': c.function,
+    '--preview-syntax-variable': c.variable,
+    '--preview-syntax-type': c.type,
+    '--preview-syntax-operator': c.operator,
+    '--preview-syntax-error': c.error,
   }
 }
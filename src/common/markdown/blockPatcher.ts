@@ -0,0 +1,214 @@
+// src/common/markdown/blockPatcher.ts
+/**
+ * 🩹 预览 DOM 的增量更新
+ *
+ * 整体替换 innerHTML 会使图片重新加载、嵌入的视频重新开始、预览中的选区丢失。
+ * 这里按顶层块比较新旧 HTML，只替换有变化的块：
+ * - 块以去掉源码行号后的 HTML 为标识，只是位置移动的块保留原节点，就地平移行号
+ * - 新的块一次性解析后插入
+ * - 更新后保持视口顶部的块在原来的位置（插入或删除上方的内容时不跳动）
+ */
+
+/** HTML 中的源码行号属性 */
+const LINE_ATTR_PATTERN = / data-(?:source-line|source-end|task-line)="(\d+)"/g
+
+/** 记录源码行号的属性 */
+const LINE_ATTRS = ['data-source-line', 'data-source-end', 'data-task-line']
+
+/** 带行号属性的元素 */
+const LINE_ATTR_SELECTOR = LINE_ATTRS.map((name) => `[${name}]`).join(',')
+
+/**
+ * 已插入预览的块
+ */
+interface BlockRecord {
+  /** 去掉行号后的 HTML */
+  key: string
+  /** 块的 HTML */
+  html: string
+  /** 块生成的节点 */
+  nodes: ChildNode[]
+}
+
+/**
+ * 去掉行号后的 HTML（只是位置移动的块标识不变）
+ */
+function getBlockKey(html: string): string {
+  return html.replace(LINE_ATTR_PATTERN, '')
+}
+
+/**
+ * 块中第一个行号
+ */
+function getFirstLine(html: string): number | null {
+  LINE_ATTR_PATTERN.lastIndex = 0
+  const match = LINE_ATTR_PATTERN.exec(html)
+  LINE_ATTR_PATTERN.lastIndex = 0
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * 平移块中节点的行号
+ */
+function shiftLines(nodes: ChildNode[], delta: number): void {
+  for (const node of nodes) {
+    if (!(node instanceof Element)) continue
+    const elements = [node, ...node.querySelectorAll(LINE_ATTR_SELECTOR)]
+    for (const element of elements) {
+      for (const name of LINE_ATTRS) {
+        const value = element.getAttribute(name)
+        if (value !== null) {
+          element.setAttribute(name, String(Number(value) + delta))
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 视口顶部的块（用于更新后恢复位置）
+ */
+function findAnchor(container: HTMLElement): { element: Element; top: number } | null {
+  const containerTop = container.getBoundingClientRect().top
+  const children = container.children
+
+  // 顶层块从上到下排列，二分查找第一个底部在视口顶部以下的块
+  let low = 0
+  let high = children.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (children[middle]!.getBoundingClientRect().bottom > containerTop) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+
+  const element = children[low]
+  return element ? { element, top: element.getBoundingClientRect().top } : null
+}
+
+/**
+ * 创建块级增量更新器
+ */
+export function createBlockPatcher() {
+  /** 当前容器 */
+  let currentContainer: HTMLElement | null = null
+
+  /** 容器中的块（按顺序） */
+  let records: BlockRecord[] = []
+
+  /** 分隔一次解析中各个块的注释（带随机后缀，不会与文档中的注释混淆） */
+  const separator = `block-${Math.random().toString(36).slice(2)}`
+
+  /**
+   * 一次性解析多个块的 HTML
+   */
+  function createNodes(htmls: string[]): ChildNode[][] {
+    const template = document.createElement('template')
+    template.innerHTML = htmls.join(`<!--${separator}-->`)
+
+    const result: ChildNode[][] = [[]]
+    for (const node of [...template.content.childNodes]) {
+      if (node instanceof Comment && node.data === separator) {
+        result.push([])
+      } else {
+        result[result.length - 1]!.push(node)
+      }
+    }
+    return result
+  }
+
+  /**
+   * 更新容器内容
+   * @param container 预览容器
+   * @param blocks 各顶层块的 HTML
+   * @returns 是否为保持视口顶部的块位置而调整了滚动位置
+   */
+  function patch(container: HTMLElement, blocks: string[]): boolean {
+    if (container !== currentContainer) {
+      currentContainer = container
+      records = []
+      container.replaceChildren()
+    }
+
+    const anchor = findAnchor(container)
+
+    // 1. 按标识匹配可复用的旧块（同一标识按顺序对应）
+    const reusable = new Map<string, BlockRecord[]>()
+    for (const record of records) {
+      const queue = reusable.get(record.key)
+      if (queue) {
+        queue.push(record)
+      } else {
+        reusable.set(record.key, [record])
+      }
+    }
+
+    const nextRecords: (BlockRecord | null)[] = []
+    const created: { index: number; html: string }[] = []
+    blocks.forEach((html, index) => {
+      const key = getBlockKey(html)
+      const record = reusable.get(key)?.shift()
+      if (!record) {
+        nextRecords.push(null)
+        created.push({ index, html })
+        return
+      }
+
+      if (record.html !== html) {
+        const oldLine = getFirstLine(record.html)
+        const newLine = getFirstLine(html)
+        if (oldLine !== null && newLine !== null) {
+          shiftLines(record.nodes, newLine - oldLine)
+        }
+        record.html = html
+      }
+      nextRecords.push(record)
+    })
+
+    // 2. 移除不再使用的旧块
+    for (const queue of reusable.values()) {
+      for (const record of queue) {
+        record.nodes.forEach((node) => node.remove())
+      }
+    }
+
+    // 3. 解析新的块
+    const createdNodes = created.length > 0 ? createNodes(created.map((item) => item.html)) : []
+    created.forEach(({ index, html }, i) => {
+      nextRecords[index] = { key: getBlockKey(html), html, nodes: createdNodes[i] ?? [] }
+    })
+
+    // 4. 按顺序放置节点（位置未变的块不移动）
+    let cursor: ChildNode | null = container.firstChild
+    records = nextRecords as BlockRecord[]
+    for (const record of records) {
+      for (const node of record.nodes) {
+        if (node === cursor) {
+          cursor = cursor.nextSibling
+        } else {
+          container.insertBefore(node, cursor)
+        }
+      }
+    }
+    // 不属于任何块的节点（如外部插入的内容）
+    while (cursor) {
+      const next: ChildNode | null = cursor.nextSibling
+      cursor.remove()
+      cursor = next
+    }
+
+    // 5. 保持视口顶部的块位置
+    if (anchor && anchor.element.isConnected) {
+      const delta = anchor.element.getBoundingClientRect().top - anchor.top
+      if (Math.abs(delta) >= 1) {
+        container.scrollTop += delta
+        return true
+      }
+    }
+    return false
+  }
+
+  return { patch }
+}
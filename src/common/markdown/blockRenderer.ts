@@ -0,0 +1,81 @@
+// src/common/markdown/blockRenderer.ts
+/**
+ * 🧱 预览的分块渲染
+ *
+ * 预览渲染 Worker 与主线程（Worker 不可用时）共用：按顶层块渲染并缓存，
+ * 渲染选项变化时清空缓存。这里的代码会在 Worker 中运行，不能访问 DOM。
+ */
+
+import type { MarkdownExtensions } from './extensions'
+import type { FrontMatterDisplay } from './frontMatter'
+import { renderMarkdownBlocks, type BlockCache, type RenderedBlock } from './renderer'
+import { resolveWikiLink } from './wikiLink'
+
+/**
+ * 预览渲染请求
+ */
+export interface PreviewRenderRequest {
+  /** 请求序号（用于丢弃过期的结果） */
+  id: number
+  /** Markdown 内容 */
+  content: string
+  /** 文档路径（用于解析相对路径图片，也是 [[#标题]] 指向的笔记） */
+  filePath: string | null
+  /** Front Matter 的显示方式 */
+  frontMatter: FrontMatterDisplay
+  /** 启用的扩展语法 */
+  extensions: MarkdownExtensions
+  /** 当前文件夹中的笔记（用于解析 Wiki 链接，为 null 时不解析） */
+  wikiNotes: string[] | null
+}
+
+/**
+ * 渲染 Worker 发出的消息
+ */
+export type PreviewWorkerMessage =
+  | { type: 'rendered'; id: number; blocks: RenderedBlock[] }
+  | { type: 'failed'; id: number; error: string }
+  /** 代码块的语言解析器加载完成，需要重新渲染 */
+  | { type: 'invalidated' }
+
+/**
+ * 创建分块渲染器
+ */
+export function createBlockRenderer() {
+  const cache: BlockCache = new Map()
+  /** 上次渲染的选项（变化时清空缓存） */
+  let optionsKey = ''
+
+  /**
+   * 渲染文档的各个顶层块
+   */
+  function render(request: PreviewRenderRequest): RenderedBlock[] {
+    const { content, filePath, frontMatter, extensions, wikiNotes } = request
+
+    const key = JSON.stringify([filePath, frontMatter, extensions, wikiNotes])
+    if (key !== optionsKey) {
+      optionsKey = key
+      cache.clear()
+    }
+
+    return renderMarkdownBlocks(
+      content,
+      filePath,
+      {
+        frontMatter,
+        extensions,
+        wikiLinks: wikiNotes ? (target) => resolveWikiLink(target, wikiNotes, filePath) : undefined,
+      },
+      cache,
+    )
+  }
+
+  /**
+   * 清空缓存（代码块语言加载完成后，缓存中的纯文本代码块需要重新高亮）
+   */
+  function clear(): void {
+    cache.clear()
+  }
+
+  return { render, clear }
+}
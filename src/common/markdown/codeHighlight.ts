@@ -0,0 +1,98 @@
+// src/common/markdown/codeHighlight.ts
+/**
+ * 🌈 预览代码块语法高亮
+ *
+ * 使用与编辑器相同的 Lezer 解析器（@codemirror/language-data）解析代码块，
+ * 按 CODE_HIGHLIGHT_RULES 把语法标签映射为 tok-<配色> 类名，
+ * 颜色来自主题的 --preview-syntax-* 变量，因此预览与编辑器在所有主题下配色一致。
+ *
+ * 语言解析器按代码块的语言标识按需加载：未加载时先输出纯文本，
+ * 加载完成后通过 onCodeLanguageLoaded 通知预览重新渲染。
+ */
+
+import { CODE_HIGHLIGHT_RULES } from '@/common/editor/themes'
+import { LanguageDescription } from '@codemirror/language'
+import { languages } from '@codemirror/language-data'
+import { highlightTree, tagHighlighter } from '@lezer/highlight'
+
+/** 语法标签 -> 类名 */
+const highlighter = tagHighlighter(
+  CODE_HIGHLIGHT_RULES.map(({ tag, color }) => ({ tag, class: `tok-${color}` })),
+)
+
+/** 语言加载完成的监听器 */
+const loadedListeners = new Set<() => void>()
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * 根据代码块的语言标识查找语言
+ */
+function findLanguage(lang: string): LanguageDescription | null {
+  return lang ? LanguageDescription.matchLanguageName(languages, lang, true) : null
+}
+
+/**
+ * 加载语言解析器，完成后通知监听器
+ */
+function loadLanguage(description: LanguageDescription): Promise<unknown> {
+  const isLoading = !description.support
+  return description
+    .load()
+    .then(() => {
+      if (isLoading) {
+        loadedListeners.forEach((listener) => listener())
+      }
+    })
+    .catch((error) => {
+      console.error(`[CodeHighlight] 加载语言 ${description.name} 失败:`, error)
+    })
+}
+
+/**
+ * 高亮代码
+ * @param code 代码
+ * @param lang 代码块的语言标识
+ * @returns 高亮后的 HTML；语言未知或解析器尚未加载时返回 null
+ */
+export function highlightCode(code: string, lang: string): string | null {
+  const description = findLanguage(lang)
+  if (!description) return null
+
+  if (!description.support) {
+    void loadLanguage(description)
+    return null
+  }
+
+  const tree = description.support.language.parser.parse(code)
+  let html = ''
+  let pos = 0
+  highlightTree(tree, highlighter, (from, to, classes) => {
+    if (from > pos) {
+      html += escapeHtml(code.slice(pos, from))
+    }
+    html += `<span class="${classes}">${escapeHtml(code.slice(from, to))}</span>`
+    pos = to
+  })
+  return html + escapeHtml(code.slice(pos))
+}
+
+/**
+ * 预先加载若干语言（导出时需要在渲染前全部就绪）
+ * @param langs 代码块的语言标识
+ */
+export async function loadCodeLanguages(langs: string[]): Promise<void> {
+  const descriptions = new Set(langs.map(findLanguage).filter((d) => d !== null))
+  await Promise.all([...descriptions].map(loadLanguage))
+}
+
+/**
+ * 监听语言解析器加载完成（用于重新渲染）
+ * @returns 取消监听的函数
+ */
+export function onCodeLanguageLoaded(listener: () => void): () => void {
+  loadedListeners.add(listener)
+  return () => loadedListeners.delete(listener)
+}
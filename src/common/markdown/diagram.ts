@@ -0,0 +1,256 @@
+// src/common/markdown/diagram.ts
+/**
+ * 📊 Mermaid 图表
+ *
+ * 将 ```mermaid 代码块渲染为 SVG（mermaid 随应用打包，完全离线）。
+ *
+ * mermaid 渲染是异步的，而 markdown-it 是同步的，所以：
+ * 1. 渲染 Markdown 时只输出按源码哈希标识的占位符（与主题无关，可以在 Worker 中渲染）
+ * 2. 主 HTML 消毒后，再把占位符替换为单独消毒过的 SVG；尚未渲染的图表在后台渲染，先显示源码
+ * 3. 渲染完成的 SVG 按「主题 + 源码」的哈希缓存，通过 onDiagramRendered 通知预览重新填充
+ *
+ * 编辑其他内容时图表直接命中缓存，不会重新渲染。
+ */
+
+import { generatePreviewCssVars, getThemeById } from '@/common/editor/themes'
+import { DEFAULT_SETTINGS } from '@/common/types'
+import DOMPurify from 'dompurify'
+import type MarkdownIt from 'markdown-it'
+import type { Mermaid } from 'mermaid'
+
+/**
+ * 图表渲染结果
+ */
+type DiagramResult = { svg: string } | { error: string }
+
+/** 缓存上限（超出后淘汰最早的条目） */
+const CACHE_LIMIT = 100
+
+/** 记录的图表源码上限 */
+const SOURCE_LIMIT = 500
+
+/** 源码哈希 -> 源码（填充占位符时查找） */
+const sources = new Map<string, string>()
+
+/** 哈希 -> 渲染结果 */
+const cache = new Map<string, DiagramResult>()
+
+/** 正在渲染的图表 */
+const pending = new Map<string, Promise<void>>()
+
+/** 渲染完成的监听器 */
+const renderedListeners = new Set<() => void>()
+
+/** 当前主题 */
+let themeId = DEFAULT_SETTINGS.editorTheme
+
+/** mermaid 实例（首次遇到图表时按需加载） */
+let mermaidPromise: Promise<Mermaid> | null = null
+
+/** 生成 SVG 元素 ID */
+let idSeed = 0
+
+/** 占位符（消毒后填入 SVG） */
+const PLACEHOLDER_PATTERN = /(<div [^>]*data-diagram="([0-9a-z]+)"[^>]*>)<\/div>/g
+
+/**
+ * SVG 消毒配置：只允许 SVG（SVG 配置已包含 mermaid 内嵌的 <style>），禁止脚本和事件处理器
+ */
+const SVG_SANITIZE_CONFIG = {
+  USE_PROFILES: { svg: true, svgFilters: true },
+  FORBID_TAGS: ['script', 'foreignObject'],
+  FORBID_ATTR: ['onmouseover', 'onclick', 'onerror', 'onload'],
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * 计算哈希（FNV-1a）
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+function getCacheKey(source: string): string {
+  return hashText(`${themeId}\n${source}`)
+}
+
+/**
+ * 把主题配色转换为 mermaid 主题变量
+ */
+function getThemeVariables(): Record<string, string | boolean> {
+  const vars = generatePreviewCssVars(themeId)
+  return {
+    darkMode: getThemeById(themeId).isDark,
+    background: vars['--preview-bg']!,
+    fontFamily: 'inherit',
+    primaryColor: vars['--preview-code-bg']!,
+    primaryTextColor: vars['--preview-text']!,
+    primaryBorderColor: vars['--preview-accent']!,
+    secondaryColor: vars['--preview-quote-bg']!,
+    tertiaryColor: vars['--preview-bg']!,
+    lineColor: vars['--preview-text-muted']!,
+    textColor: vars['--preview-text']!,
+    noteBkgColor: vars['--preview-code-bg']!,
+    noteTextColor: vars['--preview-text']!,
+    noteBorderColor: vars['--preview-border']!,
+    errorBkgColor: vars['--preview-bg']!,
+    errorTextColor: vars['--preview-syntax-error']!,
+  }
+}
+
+/**
+ * 加载并按当前主题初始化 mermaid
+ */
+async function getMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => mermaid)
+  }
+  const mermaid = await mermaidPromise
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    suppressErrorRendering: true,
+    // 不使用 foreignObject 中的 HTML 标签，SVG 可以直接通过消毒
+    htmlLabels: false,
+    flowchart: { htmlLabels: false },
+    theme: 'base',
+    themeVariables: getThemeVariables(),
+  })
+  return mermaid
+}
+
+/**
+ * 渲染图表并写入缓存
+ */
+function renderDiagram(key: string, source: string): Promise<void> {
+  const existing = pending.get(key)
+  if (existing) return existing
+
+  const task = getMermaid()
+    .then((mermaid) => mermaid.render(`mermaid-diagram-${++idSeed}`, source))
+    .then(({ svg }): DiagramResult => ({ svg: DOMPurify.sanitize(svg, SVG_SANITIZE_CONFIG) }))
+    .catch((error): DiagramResult => {
+      return { error: error instanceof Error ? error.message : String(error) }
+    })
+    .then((result) => {
+      if (cache.size >= CACHE_LIMIT) {
+        cache.delete(cache.keys().next().value!)
+      }
+      cache.set(key, result)
+      pending.delete(key)
+      renderedListeners.forEach((listener) => listener())
+    })
+  pending.set(key, task)
+  return task
+}
+
+/**
+ * 记录图表源码，返回占位符使用的标识
+ */
+function registerDiagramSource(source: string): string {
+  const id = hashText(source)
+  if (!sources.has(id)) {
+    if (sources.size >= SOURCE_LIMIT) {
+      sources.delete(sources.keys().next().value!)
+    }
+    sources.set(id, source)
+  }
+  return id
+}
+
+/**
+ * 记录在其他线程中渲染的文档里的图表源码（填充占位符前调用）
+ * @param diagramSources 图表源码
+ */
+export function registerDiagramSources(diagramSources: string[]): void {
+  diagramSources.forEach(registerDiagramSource)
+}
+
+/**
+ * 输出图表的 HTML（未渲染完成时显示源码）
+ */
+function renderDiagramHtml(source: string): string {
+  const key = getCacheKey(source)
+  const result = cache.get(key)
+
+  if (!result) {
+    void renderDiagram(key, source)
+    return `<pre class="hljs mermaid-pending"><code>${escapeHtml(source)}</code></pre>`
+  }
+  if ('error' in result) {
+    return `<pre class="diagram-error">${escapeHtml(result.error)}</pre>`
+  }
+  return result.svg
+}
+
+/**
+ * 设置图表使用的主题（切换主题后图表会重新渲染）
+ * @param id 主题 ID
+ */
+export function setDiagramTheme(id: string): void {
+  themeId = id
+}
+
+/**
+ * 把消毒后 HTML 中的占位符替换为 SVG
+ * @param html 已消毒的 HTML
+ */
+export function fillDiagrams(html: string): string {
+  return html.replace(PLACEHOLDER_PATTERN, (match, openTag: string, id: string) => {
+    const source = sources.get(id)
+    return source === undefined ? match : `${openTag}${renderDiagramHtml(source)}</div>`
+  })
+}
+
+/**
+ * 渲染若干图表（导出时需要在渲染前全部完成）
+ * @param sources 图表源码
+ */
+export async function renderDiagrams(sources: string[]): Promise<void> {
+  await Promise.all(
+    sources
+      .map((source) => ({ key: getCacheKey(source), source }))
+      .filter(({ key }) => !cache.has(key))
+      .map(({ key, source }) => renderDiagram(key, source)),
+  )
+}
+
+/**
+ * 判断代码块是否为图表
+ * @param info 代码块的信息字符串
+ */
+export function isDiagramFence(info: string): boolean {
+  return info.trim().split(/\s+/)[0] === 'mermaid'
+}
+
+/**
+ * 监听图表渲染完成（用于重新填充图表）
+ * @returns 取消监听的函数
+ */
+export function onDiagramRendered(listener: () => void): () => void {
+  renderedListeners.add(listener)
+  return () => renderedListeners.delete(listener)
+}
+
+/**
+ * markdown-it 图表插件
+ */
+export function diagramPlugin(md: MarkdownIt): void {
+  const defaultFence = md.renderer.rules.fence!
+
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx]!
+    if (isDiagramFence(token.info)) {
+      return `<div class="mermaid-diagram" data-diagram="${registerDiagramSource(token.content)}"></div>\n`
+    }
+    return defaultFence(tokens, idx, options, env, self)
+  }
+}
@@ -0,0 +1,159 @@
+// src/common/markdown/exportDocument.ts
+/**
+ * 📤 导出文档生成
+ *
+ * 使用与预览面板相同的渲染管线和主题样式，生成独立的 HTML 文档或纯文本。
+ * PDF 由主进程打印生成的 HTML 得到。
+ *
+ * 导出的 HTML 可以随笔记一起移动：图片使用相对于输出文件的路径，KaTeX 字体内联到样式中。
+ */
+
+import { generatePreviewCssVars, getThemeById } from '@/common/editor/themes'
+import katexCss from 'katex/dist/katex.min.css?raw'
+import type { MarkdownExtensions } from './extensions'
+import previewCss from './preview.css?raw'
+import { renderMarkdown } from './renderer'
+
+/**
+ * 导出样式
+ */
+export interface ExportStyle {
+  /** 主题 ID */
+  themeId: string
+  /** 字体大小 (px) */
+  fontSize: number
+  /** 字体 */
+  fontFamily: string
+  /** 显示 Front Matter 元数据卡片（导出时展开） */
+  showFrontMatter: boolean
+  /** 启用的扩展语法 */
+  extensions: MarkdownExtensions
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** KaTeX 字体（woff2，按需加载为 data URL） */
+const katexFonts = import.meta.glob<string>('/node_modules/katex/dist/fonts/*.woff2', {
+  query: '?inline',
+  import: 'default',
+})
+
+/** KaTeX 字体声明中的字体地址（只保留 woff2，其余格式的地址一并去掉） */
+const KATEX_FONT_SRC_PATTERN = /src:url\(fonts\/([\w-]+\.woff2)\)[^;}]*/g
+
+/**
+ * KaTeX 样式：字体内联为 data URL（导出文档不在应用目录中，无法引用应用中的字体文件）
+ */
+async function inlineKatexCss(): Promise<string> {
+  const fonts = new Map<string, string>()
+  await Promise.all(
+    Object.entries(katexFonts).map(async ([path, load]) => {
+      fonts.set(path.slice(path.lastIndexOf('/') + 1), await load())
+    }),
+  )
+  return katexCss.replace(KATEX_FONT_SRC_PATTERN, (match, fileName: string) => {
+    const dataUrl = fonts.get(fileName)
+    return dataUrl ? `src:url(${dataUrl}) format("woff2")` : match
+  })
+}
+
+/**
+ * 生成独立的 HTML 文档（样式内联，不依赖应用）
+ * @param content Markdown 内容
+ * @param filePath 文档路径（用于解析相对路径图片）
+ * @param style 导出样式
+ * @param title 文档标题
+ * @param outputPath 输出路径（相对路径图片改写为相对于它的路径；
+ *   打印 PDF 的临时页面为 null，图片使用 file:// 绝对路径）
+ */
+export async function buildHtmlDocument(
+  content: string,
+  filePath: string | null,
+  style: ExportStyle,
+  title: string,
+  outputPath: string | null,
+): Promise<string> {
+  const theme = getThemeById(style.themeId)
+  const html = renderMarkdown(content, filePath, {
+    frontMatter: style.showFrontMatter ? 'expanded' : 'hidden',
+    extensions: style.extensions,
+    imageBasePath: outputPath,
+  })
+  // 只有包含公式时才需要 KaTeX 样式
+  const mathCss = html.includes('class="katex') ? await inlineKatexCss() : ''
+  const cssVars = Object.entries(generatePreviewCssVars(style.themeId))
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+:root {
+${cssVars}
+}
+
+html,
+body {
+  margin: 0;
+  background: var(--preview-bg);
+  font-size: ${style.fontSize}px;
+  font-family: ${style.fontFamily};
+  -webkit-print-color-adjust: exact;
+  print-color-adjust: exact;
+}
+
+.markdown-body {
+  box-sizing: border-box;
+  max-width: 880px;
+  margin: 0 auto;
+  padding: 32px 24px;
+}
+
+${previewCss}
+${mathCss}
+</style>
+</head>
+<body class="${theme.isDark ? 'theme-dark' : 'theme-light'}">
+<article class="markdown-body">
+${html}
+</article>
+</body>
+</html>
+`
+}
+
+/**
+ * 生成纯文本（渲染后的可见文字，保留段落和换行；不含 Front Matter）
+ * @param content Markdown 内容
+ * @param filePath 文档路径
+ * @param extensions 启用的扩展语法
+ */
+export function renderPlainText(
+  content: string,
+  filePath: string | null,
+  extensions: MarkdownExtensions,
+): string {
+  // innerText 依赖布局，需要临时挂载到文档中（放在可视区域外）
+  const container = document.createElement('div')
+  container.className = 'markdown-body'
+  container.style.position = 'absolute'
+  container.style.left = '-100000px'
+  container.style.width = '880px'
+  container.innerHTML = renderMarkdown(content, filePath, { frontMatter: 'hidden', extensions })
+  document.body.appendChild(container)
+  try {
+    return container.innerText.replace(/\n{3,}/g, '\n\n').trim() + '\n'
+  } finally {
+    container.remove()
+  }
+}
@@ -0,0 +1,168 @@
+// src/common/markdown/extensions.ts
+/**
+ * 🧩 可选的 Markdown 扩展语法
+ *
+ * 脚注、GitHub 提示块、定义列表、缩写、::: 自定义容器和标题锚点。
+ * 每种扩展都可以在设置中单独开关，以便与 Git 托管平台的渲染结果保持一致。
+ */
+
+import type { AppSettings } from '@/common/types'
+import type MarkdownIt from 'markdown-it'
+import abbrPlugin from 'markdown-it-abbr'
+import containerPlugin, { type ContainerOpts } from 'markdown-it-container'
+import deflistPlugin from 'markdown-it-deflist'
+import footnotePlugin from 'markdown-it-footnote'
+import alertsPlugin from 'markdown-it-github-alerts'
+
+/**
+ * 扩展开关（对应设置中的同名项）
+ */
+export type MarkdownExtensions = Pick<
+  AppSettings,
+  | 'markdownFootnotes'
+  | 'markdownAlerts'
+  | 'markdownDefinitionLists'
+  | 'markdownAbbreviations'
+  | 'markdownContainers'
+  | 'markdownHeadingAnchors'
+>
+
+/** 所有扩展的设置项 */
+export const MARKDOWN_EXTENSION_KEYS: (keyof MarkdownExtensions)[] = [
+  'markdownFootnotes',
+  'markdownAlerts',
+  'markdownDefinitionLists',
+  'markdownAbbreviations',
+  'markdownContainers',
+  'markdownHeadingAnchors',
+]
+
+/** 自定义容器的参数：类型名 + 可选标题（::: warning 注意） */
+const CONTAINER_PARAMS = /^([a-zA-Z][\w-]*)(?:\s+(.*))?$/
+
+/**
+ * 从设置中取出扩展开关
+ * @param settings 应用设置
+ */
+export function pickMarkdownExtensions(settings: AppSettings): MarkdownExtensions {
+  const extensions = {} as MarkdownExtensions
+  for (const key of MARKDOWN_EXTENSION_KEYS) {
+    extensions[key] = settings[key]
+  }
+  return extensions
+}
+
+/**
+ * 生成标题锚点的 slug（与 GitHub 相同：转小写，去掉标点，空格替换为 -）
+ * 重名的标题依次追加 -1、-2
+ * @param text 标题文本
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '')
+    .replace(/ /g, '-')
+}
+
+/**
+ * 标题锚点：为标题生成 id，并在标题前插入 # 链接
+ * （markdown-it-anchor 每处理一个标题都会在整个 token 流中查找该标题，标题很多的长文档解析很慢）
+ */
+function headingAnchors(md: MarkdownIt): void {
+  md.core.ruler.push('heading_anchor', (state) => {
+    const usedSlugs = new Set<string>()
+
+    state.tokens.forEach((token, index) => {
+      const inline = state.tokens[index + 1]
+      if (token.type !== 'heading_open' || !inline?.children) return
+
+      const text = inline.children
+        .filter((child) => child.type === 'text' || child.type === 'code_inline')
+        .map((child) => child.content)
+        .join('')
+      const baseSlug = token.attrGet('id') ?? slugify(text)
+      let slug = baseSlug
+      for (let i = 1; usedSlugs.has(slug); i++) {
+        slug = `${baseSlug}-${i}`
+      }
+      usedSlugs.add(slug)
+      token.attrSet('id', slug)
+
+      const linkOpen = new state.Token('link_open', 'a', 1)
+      linkOpen.attrs = [
+        ['class', 'header-anchor'],
+        ['href', `#${slug}`],
+        ['aria-hidden', 'true'],
+      ]
+      const symbol = new state.Token('html_inline', '', 0)
+      symbol.content = '#'
+      const space = new state.Token('text', '', 0)
+      space.content = ' '
+      inline.children.unshift(linkOpen, symbol, new state.Token('link_close', 'a', -1), space)
+    })
+  })
+}
+
+/**
+ * ::: 自定义容器
+ * - `::: details 标题` 渲染为可折叠的 <details>
+ * - 其他类型渲染为 <div class="custom-container 类型">，可带标题
+ */
+function customContainers(md: MarkdownIt): void {
+  const escapeHtml = md.utils.escapeHtml
+
+  const details: ContainerOpts = {
+    validate: (params) => params.trim().split(/\s+/, 1)[0] === 'details',
+    render: (tokens, idx, _options, _env, self) => {
+      const token = tokens[idx]!
+      if (token.nesting === -1) return '</details>\n'
+
+      const title = token.info.trim().slice('details'.length).trim()
+      token.attrJoin('class', 'custom-container details')
+      return `<details${self.renderAttrs(token)}><summary>${escapeHtml(title || '详情')}</summary>\n`
+    },
+  }
+
+  const custom: ContainerOpts = {
+    validate: (params) => CONTAINER_PARAMS.test(params.trim()),
+    render: (tokens, idx, _options, _env, self) => {
+      const token = tokens[idx]!
+      if (token.nesting === -1) return '</div>\n'
+
+      const [, type, title] = CONTAINER_PARAMS.exec(token.info.trim())!
+      token.attrJoin('class', `custom-container ${type!.toLowerCase()}`)
+      const titleHtml = title ? `<p class="custom-container-title">${escapeHtml(title)}</p>\n` : ''
+      return `<div${self.renderAttrs(token)}>\n${titleHtml}`
+    },
+  }
+
+  md.use(containerPlugin, 'details', details)
+  md.use(containerPlugin, 'custom', custom)
+}
+
+/**
+ * 按开关启用扩展
+ * @param md markdown-it 实例
+ * @param extensions 扩展开关
+ */
+export function applyMarkdownExtensions(md: MarkdownIt, extensions: MarkdownExtensions): void {
+  if (extensions.markdownFootnotes) {
+    md.use(footnotePlugin)
+  }
+  if (extensions.markdownAlerts) {
+    md.use(alertsPlugin)
+  }
+  if (extensions.markdownDefinitionLists) {
+    md.use(deflistPlugin)
+  }
+  if (extensions.markdownAbbreviations) {
+    md.use(abbrPlugin)
+  }
+  if (extensions.markdownContainers) {
+    md.use(customContainers)
+  }
+  if (extensions.markdownHeadingAnchors) {
+    md.use(headingAnchors)
+  }
+}
@@ -0,0 +1,233 @@
+// src/common/markdown/frontMatter.ts
+/**
+ * 📋 YAML Front Matter
+ *
+ * 文档开头由 --- 包围的 YAML 元数据：
+ *
+ *   ---
+ *   title: 快速排序
+ *   tags: [算法, 排序]
+ *   date: 2024-03-01
+ *   ---
+ *
+ * 解析为 FrontMatter，供预览显示元数据卡片、标题栏显示标题、按标签查询等使用。
+ * 结束分隔行也可以是 ...（YAML 文档结束标记）。
+ */
+
+import { load } from 'js-yaml'
+import type MarkdownIt from 'markdown-it'
+
+/**
+ * 解析后的 Front Matter
+ */
+export interface FrontMatter {
+  /** 原始 YAML 文本 */
+  raw: string
+  /** 所有字段 */
+  data: Record<string, unknown>
+  /** 标题（title 字段） */
+  title: string | null
+  /** 标签（tags 字段，支持列表或逗号分隔的字符串） */
+  tags: string[]
+  /** 日期（date 字段，日期格式为 YYYY-MM-DD） */
+  date: string | null
+  /** YAML 语法错误（有错误时其他字段为空） */
+  error: string | null
+  /** 占用的行数（含前后分隔行） */
+  lineCount: number
+}
+
+/** 解析缓存上限 */
+const CACHE_LIMIT = 50
+
+/** 原始 YAML -> 解析结果（输入时 Front Matter 通常不变，避免重复解析） */
+const cache = new Map<string, Omit<FrontMatter, 'lineCount'>>()
+
+/**
+ * 读取从 start 开始的一行（不含换行符）
+ */
+function readLine(content: string, start: number): { text: string; next: number } {
+  const end = content.indexOf('\n', start)
+  const lineEnd = end === -1 ? content.length : end
+  return {
+    text: content.slice(start, lineEnd).replace(/\r$/, ''),
+    next: end === -1 ? -1 : end + 1,
+  }
+}
+
+/**
+ * 定位 Front Matter
+ * @param content 文档内容
+ * @returns 原始 YAML 和占用的行数；文档不以 Front Matter 开头时返回 null
+ */
+export function matchFrontMatter(content: string): { raw: string; lineCount: number } | null {
+  const first = readLine(content, 0)
+  if (first.text.trimEnd() !== '---' || first.next === -1) return null
+
+  const lines: string[] = []
+  let pos = first.next
+  while (pos !== -1) {
+    const line = readLine(content, pos)
+    const marker = line.text.trimEnd()
+    if (marker === '---' || marker === '...') {
+      return { raw: lines.join('\n'), lineCount: lines.length + 2 }
+    }
+    lines.push(line.text)
+    pos = line.next
+  }
+  return null
+}
+
+function normalizeDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    const iso = value.toISOString()
+    // 只有日期的值（YAML 解析为 UTC 零点）不显示时间
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso
+  }
+  if (typeof value === 'string' || typeof value === 'number') return String(value)
+  return null
+}
+
+function normalizeTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((tag) => tag !== null && tag !== undefined).map(String)
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+  }
+  return []
+}
+
+/**
+ * 解析 YAML
+ */
+function parseYaml(raw: string): Omit<FrontMatter, 'lineCount'> {
+  try {
+    const loaded = load(raw)
+    const data =
+      loaded !== null && typeof loaded === 'object' && !Array.isArray(loaded)
+        ? (loaded as Record<string, unknown>)
+        : {}
+    const title = data.title
+    return {
+      raw,
+      data,
+      title: typeof title === 'string' || typeof title === 'number' ? String(title) : null,
+      tags: normalizeTags(data.tags),
+      date: normalizeDate(data.date),
+      error: null,
+    }
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error)
+    return { raw, data: {}, title: null, tags: [], date: null, error: errMsg }
+  }
+}
+
+/**
+ * 解析文档的 Front Matter
+ * @param content 文档内容
+ * @returns 解析结果；文档没有 Front Matter 时返回 null
+ */
+export function parseFrontMatter(content: string): FrontMatter | null {
+  const match = matchFrontMatter(content)
+  if (!match) return null
+
+  let parsed = cache.get(match.raw)
+  if (!parsed) {
+    parsed = parseYaml(match.raw)
+    if (cache.size >= CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value!)
+    }
+    cache.set(match.raw, parsed)
+  }
+  return { ...parsed, lineCount: match.lineCount }
+}
+
+// ========== markdown-it 插件 ==========
+
+/**
+ * 预览中 Front Matter 的显示方式
+ * - hidden: 不显示
+ * - collapsed: 折叠的元数据卡片
+ * - expanded: 展开的元数据卡片
+ */
+export type FrontMatterDisplay = 'hidden' | 'collapsed' | 'expanded'
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * 格式化字段值
+ */
+function formatValue(key: string, value: unknown, frontMatter: FrontMatter): string {
+  if (key === 'tags') {
+    return frontMatter.tags
+      .map((tag) => `<span class="front-matter-tag">${escapeHtml(tag)}</span>`)
+      .join(' ')
+  }
+  if (key === 'date' && frontMatter.date) return escapeHtml(frontMatter.date)
+  if (value instanceof Date) return escapeHtml(normalizeDate(value) ?? '')
+  if (value !== null && typeof value === 'object') return escapeHtml(JSON.stringify(value))
+  return escapeHtml(String(value ?? ''))
+}
+
+/**
+ * 渲染元数据卡片
+ */
+function renderFrontMatterCard(frontMatter: FrontMatter, expanded: boolean): string {
+  const title = frontMatter.title
+    ? ` <span class="front-matter-title">${escapeHtml(frontMatter.title)}</span>`
+    : ''
+  const body = frontMatter.error
+    ? `<pre class="front-matter-error">${escapeHtml(frontMatter.error)}</pre>`
+    : `<table><tbody>${Object.entries(frontMatter.data)
+        .map(
+          ([key, value]) =>
+            `<tr><th>${escapeHtml(key)}</th><td>${formatValue(key, value, frontMatter)}</td></tr>`,
+        )
+        .join('')}</tbody></table>`
+
+  return `<details class="front-matter"${expanded ? ' open' : ''}><summary>元数据${title}</summary>${body}</details>\n`
+}
+
+/**
+ * markdown-it Front Matter 插件
+ * 通过 env.frontMatter 控制显示方式（默认折叠）
+ */
+export function frontMatterPlugin(md: MarkdownIt): void {
+  md.block.ruler.before('hr', 'front_matter', (state, startLine, _endLine, silent) => {
+    // 只在文档开头识别
+    if (startLine !== 0 || state.blkIndent !== 0 || state.parentType !== 'root') return false
+
+    const frontMatter = parseFrontMatter(state.src)
+    if (!frontMatter) return false
+    if (silent) return true
+
+    const token = state.push('front_matter', '', 0)
+    token.block = true
+    token.markup = '---'
+    token.meta = frontMatter
+    token.map = [0, frontMatter.lineCount]
+    state.line = frontMatter.lineCount
+    return true
+  })
+
+  md.renderer.rules.front_matter = (
+    tokens,
+    idx,
+    _options,
+    env: { frontMatter?: FrontMatterDisplay },
+  ) => {
+    const display = env.frontMatter ?? 'collapsed'
+    if (display === 'hidden') return ''
+    return renderFrontMatterCard(tokens[idx]!.meta as FrontMatter, display === 'expanded')
+  }
+}
@@ -0,0 +1,18 @@
+// src/common/markdown/markdown-it-plugins.d.ts
+/**
+ * 未自带类型声明的 markdown-it 插件
+ */
+
+declare module 'markdown-it-abbr' {
+  import type { PluginSimple } from 'markdown-it'
+
+  const abbrPlugin: PluginSimple
+  export default abbrPlugin
+}
+
+declare module 'markdown-it-deflist' {
+  import type { PluginSimple } from 'markdown-it'
+
+  const deflistPlugin: PluginSimple
+  export default deflistPlugin
+}
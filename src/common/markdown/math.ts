@@ -0,0 +1,197 @@
+// src/common/markdown/math.ts
+/**
+ * ➗ 数学公式（LaTeX）
+ *
+ * - 行内公式：$...$（行内的 $$...$$ 按块级公式显示）
+ * - 块级公式：以 $$ 开头的行，到以 $$ 结尾的行为止
+ *
+ * 使用 KaTeX 离线渲染；公式有误时只在该公式处显示错误，不影响整篇预览。
+ * 编辑器（common/editor/mathSyntax.ts）使用相同的定界规则识别公式，
+ * 保证公式中的 * 和 _ 不会被当作强调。
+ */
+
+import katex from 'katex'
+import type MarkdownIt from 'markdown-it'
+import type StateBlock from 'markdown-it/lib/rules_block/state_block.mjs'
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs'
+
+const DOLLAR = 0x24
+const BACKSLASH = 0x5c
+
+/**
+ * 行内公式扫描结果
+ */
+export interface InlineMathMatch {
+  /** 定界符长度（$ 为 1，$$ 为 2） */
+  markLength: number
+  /** 公式结束位置（含结束定界符） */
+  end: number
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+}
+
+function isDigit(code: number): boolean {
+  return code >= 0x30 && code <= 0x39
+}
+
+/**
+ * 从 start 处（必须是 $）扫描行内公式
+ * 规则与 Pandoc 一致：$ 后不能是空白，结束的 $ 前不能是空白、后不能是数字，
+ * 避免把 "$5 和 $10" 这样的金额识别为公式
+ * @param text 文本
+ * @param start 起始位置
+ * @param end 扫描结束位置
+ * @returns 匹配结果；不是公式时返回 null
+ */
+export function scanInlineMath(
+  text: string,
+  start: number,
+  end: number = text.length,
+): InlineMathMatch | null {
+  if (text.charCodeAt(start) !== DOLLAR) return null
+  if (start > 0 && text.charCodeAt(start - 1) === BACKSLASH) return null
+
+  const markLength = text.charCodeAt(start + 1) === DOLLAR ? 2 : 1
+  const contentStart = start + markLength
+  if (contentStart >= end || isWhitespace(text.charCodeAt(contentStart))) return null
+
+  for (let pos = contentStart; pos < end; pos++) {
+    const code = text.charCodeAt(pos)
+    if (code === BACKSLASH) {
+      pos++
+      continue
+    }
+    if (code !== DOLLAR) continue
+
+    if (markLength === 2) {
+      if (text.charCodeAt(pos + 1) === DOLLAR && pos > contentStart) {
+        return { markLength, end: pos + 2 }
+      }
+      continue
+    }
+    if (isWhitespace(text.charCodeAt(pos - 1)) || isDigit(text.charCodeAt(pos + 1))) {
+      return null
+    }
+    return pos > contentStart ? { markLength, end: pos + 1 } : null
+  }
+  return null
+}
+
+/**
+ * 块级公式的起始行（最多 3 个空格缩进后以 $$ 开头）
+ */
+export const BLOCK_MATH_OPEN = /^ {0,3}\$\$/
+
+/**
+ * 判断是否为块级公式的结束行（以 $$ 结尾）
+ * @param text 行内容（起始行需去掉开头的 $$）
+ */
+export function isBlockMathClose(text: string): boolean {
+  return text.trimEnd().endsWith('$$')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * 渲染公式
+ * @param tex LaTeX 源码
+ * @param displayMode 是否为块级公式
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(tex, {
+      displayMode,
+      output: 'html',
+      throwOnError: true,
+      strict: 'ignore', // 允许 \text{} 中的中文等非 ASCII 字符
+    })
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error)
+    const tag = displayMode ? 'div' : 'span'
+    return `<${tag} class="math-error" title="${escapeHtml(errMsg)}">${escapeHtml(tex)}</${tag}>`
+  }
+}
+
+// ========== markdown-it 插件 ==========
+
+function mathInline(state: StateInline, silent: boolean): boolean {
+  const match = scanInlineMath(state.src, state.pos, state.posMax)
+  if (!match) return false
+
+  if (!silent) {
+    const token = state.push(match.markLength === 2 ? 'math_inline_display' : 'math_inline', '', 0)
+    token.markup = match.markLength === 2 ? '$$' : '$'
+    token.content = state.src.slice(state.pos + match.markLength, match.end - match.markLength)
+  }
+  state.pos = match.end
+  return true
+}
+
+function mathBlock(
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean,
+): boolean {
+  const lineStart = state.bMarks[startLine]! + state.tShift[startLine]!
+  const lineEnd = state.eMarks[startLine]!
+  // 缩进代码块中的 $$ 不处理
+  if (state.sCount[startLine]! - state.blkIndent >= 4) return false
+  if (!BLOCK_MATH_OPEN.test(state.src.slice(lineStart, lineEnd))) return false
+
+  const firstLine = state.src.slice(lineStart + 2, lineEnd)
+  let content: string
+  let nextLine = startLine
+
+  if (isBlockMathClose(firstLine)) {
+    // 单行：$$ ... $$
+    content = firstLine.trimEnd().slice(0, -2)
+  } else {
+    const lines = [firstLine]
+    let closed = false
+    while (++nextLine < endLine) {
+      const text = state.src.slice(state.bMarks[nextLine], state.eMarks[nextLine])
+      if (isBlockMathClose(text)) {
+        lines.push(text.trimEnd().slice(0, -2))
+        closed = true
+        break
+      }
+      lines.push(text)
+    }
+    // 没有结束行时不作为公式（避免多余的 $$ 吞掉之后的全部内容）
+    if (!closed) return false
+    content = lines.join('\n')
+  }
+  if (silent) return true
+
+  const token = state.push('math_block', 'math', 0)
+  token.block = true
+  token.markup = '$$'
+  token.content = content
+  token.map = [startLine, nextLine + 1]
+  state.line = nextLine + 1
+  return true
+}
+
+/**
+ * markdown-it 数学公式插件
+ */
+export function mathPlugin(md: MarkdownIt): void {
+  md.inline.ruler.after('escape', 'math_inline', mathInline)
+  // 与围栏代码块一样可以直接打断段落
+  md.block.ruler.before('fence', 'math_block', mathBlock, {
+    alt: ['paragraph', 'reference', 'blockquote', 'list'],
+  })
+
+  md.renderer.rules.math_inline = (tokens, idx) => renderMath(tokens[idx]!.content, false)
+  md.renderer.rules.math_inline_display = (tokens, idx) => renderMath(tokens[idx]!.content, true)
+  md.renderer.rules.math_block = (tokens, idx) => renderMath(tokens[idx]!.content, true) + '\n'
+}
@@ -0,0 +1,80 @@
+// src/common/markdown/noteLink.ts
+/**
+ * 📎 指向其他笔记的 Markdown 链接
+ *
+ * [文字](./other.md#标题) 这类相对路径链接和指向 .md 文件的 file: 链接在应用内打开，
+ * 其余带协议的链接（http、mailto 等）仍交给系统处理。
+ */
+
+import { fileUrlToPath, getDirectory, isMarkdownFile, resolvePath } from '@/common/utils/path'
+
+/**
+ * 解析后的笔记链接
+ */
+export interface NoteLink {
+  /** 目标笔记的绝对路径 */
+  path: string
+  /** 链接中的标题（# 之后的部分） */
+  heading: string | null
+}
+
+/** URL 协议（如 https:、mailto:） */
+const SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:/i
+
+/** 带盘符的 Windows 路径（协议判断中排除） */
+const DRIVE_PATH_PATTERN = /^[a-z]:[/\\]/i
+
+/**
+ * 解码链接（markdown-it 会对路径中的空格、中文等进行百分号编码）
+ */
+function decodeLink(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * 拆分链接的路径和 # 之后的部分
+ */
+function splitHref(href: string): { target: string; fragment: string | null } {
+  const hashIndex = href.indexOf('#')
+  if (hashIndex === -1) return { target: href, fragment: null }
+  return { target: href.slice(0, hashIndex), fragment: href.slice(hashIndex + 1) }
+}
+
+/**
+ * 链接是否指向本地的 Markdown 文件（相对路径、绝对路径或 file: 链接）
+ */
+export function isNoteLinkHref(href: string): boolean {
+  const { target } = splitHref(href)
+  if (!target) return false
+  if (SCHEME_PATTERN.test(target) && !DRIVE_PATH_PATTERN.test(target) && !/^file:/i.test(target)) {
+    return false
+  }
+  return isMarkdownFile(decodeLink(target.replace(/\?.*$/, '')))
+}
+
+/**
+ * 解析指向其他笔记的链接
+ * @param href 链接地址
+ * @param currentPath 当前笔记路径（相对路径按其所在文件夹解析，未保存的新文件为 null）
+ * @returns 不是笔记链接或无法解析时为 null
+ */
+export function resolveNoteLink(href: string, currentPath: string | null): NoteLink | null {
+  if (!isNoteLinkHref(href)) return null
+
+  const { target, fragment } = splitHref(href)
+  const decoded = decodeLink(target.replace(/\?.*$/, ''))
+  const heading = fragment ? decodeLink(fragment) : null
+
+  if (/^file:/i.test(decoded)) {
+    return { path: fileUrlToPath(decoded), heading }
+  }
+  if (decoded.startsWith('/') || decoded.startsWith('\\') || DRIVE_PATH_PATTERN.test(decoded)) {
+    return { path: decoded, heading }
+  }
+  if (!currentPath) return null
+  return { path: resolvePath(getDirectory(currentPath), decoded), heading }
+}
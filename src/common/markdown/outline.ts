@@ -0,0 +1,106 @@
+// src/common/markdown/outline.ts
+/**
+ * 🧭 文档大纲
+ *
+ * 从 Markdown 的标题结构（H1-H6）生成大纲。使用与预览相同的解析器，
+ * 代码块和 Front Matter 中的 # 不会被误认为标题。
+ */
+
+import { slugify } from './extensions'
+import { parseMarkdown } from './renderer'
+
+/**
+ * 大纲中的标题
+ */
+export interface OutlineHeading {
+  /** 唯一标识（标题增删时保持稳定，用于记录折叠状态） */
+  key: string
+  /** 标题级别 (1-6) */
+  level: number
+  /** 标题文本（去掉 Markdown 标记） */
+  text: string
+  /** 源码行号（从 1 开始） */
+  line: number
+  /** 父标题的索引（顶层标题为 -1） */
+  parent: number
+  /** 是否有子标题 */
+  hasChildren: boolean
+}
+
+/**
+ * 提取文档大纲
+ * @param content Markdown 内容
+ */
+export function extractOutline(content: string): OutlineHeading[] {
+  const tokens = parseMarkdown(content)
+  const headings: OutlineHeading[] = []
+  const keyCounts = new Map<string, number>()
+  /** 当前路径上的标题索引（按级别递增） */
+  const stack: number[] = []
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'heading_open' || !token.map) return
+
+    const level = Number(token.tag.slice(1))
+    const inline = tokens[index + 1]
+    const text = (inline?.children ?? [])
+      .map((child) => (child.type === 'html_inline' ? '' : child.content))
+      .join('')
+      .trim()
+
+    while (stack.length > 0 && headings[stack[stack.length - 1]!]!.level >= level) {
+      stack.pop()
+    }
+    const parent = stack.length > 0 ? stack[stack.length - 1]! : -1
+    if (parent >= 0) {
+      headings[parent]!.hasChildren = true
+    }
+
+    // 同级同名的标题按出现顺序区分
+    const baseKey = `${level}:${text}`
+    const count = keyCounts.get(baseKey) ?? 0
+    keyCounts.set(baseKey, count + 1)
+
+    stack.push(headings.length)
+    headings.push({
+      key: `${baseKey}:${count}`,
+      level,
+      text,
+      line: token.map[0] + 1,
+      parent,
+      hasChildren: false,
+    })
+  })
+
+  return headings
+}
+
+/**
+ * 查找光标所在的章节
+ * @param headings 大纲
+ * @param line 光标所在行（从 1 开始）
+ * @returns 标题索引；光标在第一个标题之前时返回 -1
+ */
+export function findSectionAt(headings: OutlineHeading[], line: number): number {
+  let result = -1
+  for (let i = 0; i < headings.length; i++) {
+    if (headings[i]!.line > line) break
+    result = i
+  }
+  return result
+}
+
+/**
+ * 按标题文本查找标题所在行（不区分大小写，也可以使用标题锚点的 slug）
+ * @param content Markdown 内容
+ * @param text 标题文本
+ * @returns 行号（从 1 开始）；找不到时返回 null
+ */
+export function findHeadingLine(content: string, text: string): number | null {
+  const query = text.trim().toLowerCase()
+  const slug = slugify(text)
+  const heading = extractOutline(content).find(
+    (item) => item.text.toLowerCase() === query || slugify(item.text) === slug,
+  )
+  return heading?.line ?? null
+}
@@ -0,0 +1,60 @@
+// src/common/markdown/preview.worker.ts
+/**
+ * 🧵 预览渲染 Worker
+ *
+ * 在后台线程中解析和渲染 Markdown。渲染期间收到的多个请求只处理最新的一个，
+ * 过期的请求直接丢弃。
+ */
+
+import {
+  createBlockRenderer,
+  type PreviewRenderRequest,
+  type PreviewWorkerMessage,
+} from './blockRenderer'
+import { onCodeLanguageLoaded } from './codeHighlight'
+
+const renderer = createBlockRenderer()
+
+/** 等待处理的最新请求 */
+let latestRequest: PreviewRenderRequest | null = null
+
+/** 是否已安排处理 */
+let isScheduled = false
+
+function post(message: PreviewWorkerMessage): void {
+  self.postMessage(message)
+}
+
+/**
+ * 处理最新的请求
+ */
+function processLatestRequest(): void {
+  isScheduled = false
+  const request = latestRequest
+  latestRequest = null
+  if (!request) return
+
+  try {
+    post({ type: 'rendered', id: request.id, blocks: renderer.render(request) })
+  } catch (error) {
+    post({
+      type: 'failed',
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<PreviewRenderRequest>) => {
+  latestRequest = event.data
+  // 延后处理：先取完队列中积压的请求，只渲染最后一个
+  if (!isScheduled) {
+    isScheduled = true
+    setTimeout(processLatestRequest, 0)
+  }
+})
+
+onCodeLanguageLoaded(() => {
+  renderer.clear()
+  post({ type: 'invalidated' })
+})
@@ -0,0 +1,192 @@
+// src/common/markdown/previewRenderer.ts
+/**
+ * 🧵 预览渲染（后台线程）
+ *
+ * 输入时整篇重新渲染大文档会阻塞界面，因此：
+ * 1. 解析和渲染在 Web Worker 中进行，只有 token 发生变化的顶层块会重新渲染
+ * 2. DOMPurify 依赖 DOM，消毒仍在主线程进行，但只消毒有变化的块（其余块复用上次的结果）
+ * 3. 发出新的请求后，尚未完成的旧请求作废（结果为 null）
+ *
+ * Worker 无法创建或加载失败时退回到主线程渲染（同样按块缓存）。
+ */
+
+import {
+  createBlockRenderer,
+  type PreviewRenderRequest,
+  type PreviewWorkerMessage,
+} from './blockRenderer'
+import { onCodeLanguageLoaded } from './codeHighlight'
+import { fillDiagrams, registerDiagramSources } from './diagram'
+import { sanitizeHtml, type RenderedBlock } from './renderer'
+
+/**
+ * 预览渲染选项
+ */
+export type PreviewRenderOptions = Omit<PreviewRenderRequest, 'id'>
+
+/**
+ * 等待 Worker 返回的请求
+ */
+interface PendingRequest {
+  request: PreviewRenderRequest
+  resolve: (blocks: string[] | null) => void
+}
+
+/**
+ * 创建预览渲染器
+ * @param onInvalidated 缓存的渲染结果失效（代码块的语言解析器加载完成）时调用，需要重新渲染
+ */
+export function createPreviewRenderer(onInvalidated: () => void) {
+  /** 请求序号 */
+  let requestSeed = 0
+
+  /** 等待结果的请求（最多一个，新的请求会使其作废） */
+  let pending: PendingRequest | null = null
+
+  /** 主线程渲染器（Worker 不可用时创建） */
+  let fallback: ReturnType<typeof createBlockRenderer> | null = null
+
+  /** 消毒结果缓存（未消毒的块 HTML -> 消毒后的 HTML），只保留上次渲染用到的块 */
+  let sanitizedBlocks = new Map<string, string>()
+
+  /** 消毒缓存对应的文档路径（HTML 图片的路径按文档解析） */
+  let sanitizedFilePath: string | null = null
+
+  /** 上次渲染的块（已消毒，尚未填充图表） */
+  let lastBlocks: string[] = []
+
+  let worker = createWorker()
+
+  function createWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null
+    try {
+      const instance = new Worker(new URL('./preview.worker.ts', import.meta.url), {
+        type: 'module',
+      })
+      instance.addEventListener('message', handleMessage)
+      instance.addEventListener('error', handleWorkerError)
+      return instance
+    } catch (error) {
+      console.error('[PreviewRenderer] 无法创建渲染 Worker，改为在主线程渲染:', error)
+      return null
+    }
+  }
+
+  /**
+   * 消毒各块并填充图表
+   */
+  function finish(blocks: RenderedBlock[], filePath: string | null): string[] {
+    if (filePath !== sanitizedFilePath) {
+      sanitizedFilePath = filePath
+      sanitizedBlocks.clear()
+    }
+
+    const nextSanitized = new Map<string, string>()
+    lastBlocks = blocks.map((block) => {
+      registerDiagramSources(block.diagrams)
+      const html =
+        nextSanitized.get(block.html) ??
+        sanitizedBlocks.get(block.html) ??
+        sanitizeHtml(block.html, filePath)
+      nextSanitized.set(block.html, html)
+      return html
+    })
+    sanitizedBlocks = nextSanitized
+
+    return refill()
+  }
+
+  /**
+   * 在主线程渲染
+   */
+  function renderOnMainThread(request: PreviewRenderRequest): string[] {
+    fallback ??= createBlockRenderer()
+    return finish(fallback.render(request), request.filePath)
+  }
+
+  function handleMessage(event: MessageEvent<PreviewWorkerMessage>): void {
+    const message = event.data
+    if (message.type === 'invalidated') {
+      onInvalidated()
+      return
+    }
+
+    // 已作废的请求
+    if (!pending || pending.request.id !== message.id) return
+    const { request, resolve } = pending
+    pending = null
+
+    if (message.type === 'rendered') {
+      resolve(finish(message.blocks, request.filePath))
+    } else {
+      console.error('[PreviewRenderer] 渲染失败:', message.error)
+      resolve(null)
+    }
+  }
+
+  function handleWorkerError(event: ErrorEvent): void {
+    console.error('[PreviewRenderer] 渲染 Worker 出错，改为在主线程渲染:', event.message)
+    worker?.terminate()
+    worker = null
+
+    if (pending) {
+      const { request, resolve } = pending
+      pending = null
+      resolve(renderOnMainThread(request))
+    }
+  }
+
+  // 主线程渲染时，语言解析器在主线程加载
+  const stopLanguageListener = onCodeLanguageLoaded(() => {
+    if (!fallback) return
+    fallback.clear()
+    onInvalidated()
+  })
+
+  /**
+   * 渲染文档
+   * @returns 各顶层块的 HTML；被更新的请求取代或渲染失败时为 null
+   */
+  function render(options: PreviewRenderOptions): Promise<string[] | null> {
+    const request: PreviewRenderRequest = { ...options, id: ++requestSeed }
+    cancel()
+
+    if (!worker) {
+      return Promise.resolve(renderOnMainThread(request))
+    }
+
+    const target = worker
+    return new Promise((resolve) => {
+      pending = { request, resolve }
+      target.postMessage(request)
+    })
+  }
+
+  /**
+   * 作废尚未完成的渲染
+   */
+  function cancel(): void {
+    pending?.resolve(null)
+    pending = null
+  }
+
+  /**
+   * 重新填充上次渲染结果中的图表（图表渲染完成或切换主题后调用）
+   * @returns 各顶层块的 HTML
+   */
+  function refill(): string[] {
+    return lastBlocks.map(fillDiagrams)
+  }
+
+  /**
+   * 停止渲染并结束 Worker
+   */
+  function dispose(): void {
+    stopLanguageListener()
+    cancel()
+    worker?.terminate()
+    worker = null
+  }
+
+  return { render, cancel, refill, dispose }
+}
@@ -0,0 +1,529 @@
+// src/common/markdown/renderer.ts
+/**
+ * 📝 Markdown 渲染管线
+ *
+ * 预览面板与无界面导出（--export）共用同一套 markdown-it 配置和 DOMPurify 消毒规则，
+ * 保证导出结果与应用内看到的一致。
+ *
+ * 本模块也会在预览的渲染 Worker 中加载（见 previewRenderer.ts），
+ * 模块顶层不能访问 DOM（DOMPurify 钩子在首次消毒时才注册）。
+ */
+
+import DOMPurify from 'dompurify'
+import MarkdownIt from 'markdown-it'
+import type Token from 'markdown-it/lib/token.mjs'
+import { DEFAULT_SETTINGS } from '@/common/types'
+import { getDirectory, getRelativePath, resolvePath } from '@/common/utils/path'
+import { highlightCode, loadCodeLanguages } from './codeHighlight'
+import { diagramPlugin, fillDiagrams, isDiagramFence, renderDiagrams } from './diagram'
+import {
+  applyMarkdownExtensions,
+  MARKDOWN_EXTENSION_KEYS,
+  pickMarkdownExtensions,
+  type MarkdownExtensions,
+} from './extensions'
+import { frontMatterPlugin, type FrontMatterDisplay } from './frontMatter'
+import { mathPlugin } from './math'
+import { isNoteLinkHref } from './noteLink'
+import { taskListPlugin } from './taskList'
+import { wikiLinkPlugin, type WikiLinkResolver } from './wikiLink'
+
+/**
+ * 渲染环境（通过 markdown-it 的 env 传递给渲染规则）
+ */
+interface RenderEnv {
+  /** 当前文件路径（用于解析相对路径图片） */
+  filePath: string | null
+  /** 相对路径图片改写为相对于此文件的路径（为空时转换为 file:// 绝对路径） */
+  imageBasePath: string | null
+  /** Front Matter 的显示方式 */
+  frontMatter: FrontMatterDisplay
+  /** Wiki 链接的解析函数（为空时只显示链接文本） */
+  wikiLinks: WikiLinkResolver | null
+}
+
+/**
+ * 渲染选项
+ */
+export interface RenderOptions {
+  /** Front Matter 的显示方式（默认折叠） */
+  frontMatter?: FrontMatterDisplay
+  /** 启用的扩展语法（默认全部启用） */
+  extensions?: MarkdownExtensions
+  /** Wiki 链接的解析函数（默认不解析，只显示链接文本） */
+  wikiLinks?: WikiLinkResolver
+  /** 相对路径图片改写为相对于此文件的路径（导出 HTML 时为输出文件；默认转换为 file:// 绝对路径） */
+  imageBasePath?: string | null
+}
+
+/**
+ * 顶层块的渲染结果（未消毒）
+ */
+export interface RenderedBlock {
+  /** 块的 HTML */
+  html: string
+  /** 块中的图表源码（在其他线程渲染时，填充图表前需要先登记） */
+  diagrams: string[]
+}
+
+/**
+ * 顶层块的渲染缓存（块的 token 摘要 -> 渲染结果）
+ */
+export type BlockCache = Map<string, RenderedBlock & { line: number }>
+
+/** 记录源码行号的属性（块移动后只需平移行号，不必重新渲染） */
+const SOURCE_LINE_ATTRS = new Set(['data-source-line', 'data-source-end'])
+
+/** HTML 中的源码行号 */
+const SOURCE_LINE_PATTERN = / data-(source-line|source-end|task-line)="(\d+)"/g
+
+/** 块级 HTML 的起始标签 */
+const HTML_TAG_PATTERN = /<(\/?)([a-z][a-z0-9-]*)/gi
+
+/** 没有结束标签的 HTML 元素 */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+/**
+ * 改写相对路径图片为相对于另一个文件的路径（导出的 HTML 不在笔记所在文件夹时仍能显示图片）
+ * @returns 无法表示为相对路径（如位于不同盘符）时为 null
+ */
+function relocateImageSrc(src: string, filePath: string, basePath: string): string | null {
+  const [, target = '', suffix = ''] = /^([^?#]*)(.*)$/.exec(src) ?? []
+  // 绝对路径不需要改写
+  if (/^([/\\]|[a-z]:)/i.test(target)) return src
+
+  let decoded = target
+  try {
+    decoded = decodeURIComponent(target)
+  } catch {
+    // 保持原样
+  }
+  const relativePath = getRelativePath(
+    getDirectory(basePath),
+    resolvePath(getDirectory(filePath), decoded),
+  )
+  if (relativePath === null) return null
+  return relativePath.split('/').map(encodeURIComponent).join('/') + suffix
+}
+
+/**
+ * 转换图片路径
+ * 将相对路径转换为 file:// 协议的绝对路径，或相对于 basePath 的路径
+ * @param src 图片地址
+ * @param filePath 当前文件路径
+ * @param basePath 改写为相对于此文件的路径（为空时转换为绝对路径）
+ */
+export function transformImageSrc(
+  src: string,
+  filePath: string | null,
+  basePath: string | null = null,
+): string {
+  // 如果是绝对路径 (http://, https://, file://, data:)，直接返回
+  if (/^(https?:|file:|data:)/i.test(src)) {
+    return src
+  }
+
+  // 如果没有当前文件路径，无法解析相对路径
+  if (!filePath) {
+    return src
+  }
+
+  if (basePath) {
+    const relocated = relocateImageSrc(src, filePath, basePath)
+    if (relocated !== null) return relocated
+  }
+
+  try {
+    const dir = getDirectory(filePath)
+    if (!dir) return src
+
+    // 处理路径拼接
+    // 注意：这里简单拼接，实际可能需要处理 .. 等相对路径符号
+    // 但浏览器/Electron 通常能处理 file:///path/to/../image.png
+
+    // 移除 src 开头的 ./
+    let cleanSrc = src
+    if (cleanSrc.startsWith('./')) {
+      cleanSrc = cleanSrc.substring(2)
+    }
+
+    // 确保目录路径以 / 结尾（用于拼接）
+    // 将反斜杠转换为正斜杠，以便构建 URL
+    const normalizedDir = dir.replace(/\\/g, '/')
+
+    // 构建 file:// URL
+    // Windows 路径通常以盘符开头，如 C:/...
+    // file:///C:/... 是有效格式
+    const separator = normalizedDir.endsWith('/') ? '' : '/'
+    return `file:///${normalizedDir}${separator}${cleanSrc}`
+  } catch (e) {
+    console.error('图片路径转换失败:', e)
+    return src
+  }
+}
+
+// ========== Markdown 解析器配置 ==========
+
+/** 默认启用全部扩展 */
+const DEFAULT_EXTENSIONS = pickMarkdownExtensions(DEFAULT_SETTINGS)
+
+/** 只解析结构时使用的扩展（标题锚点只影响渲染结果，大纲、任务统计等不需要） */
+const PARSE_EXTENSIONS: MarkdownExtensions = {
+  ...DEFAULT_EXTENSIONS,
+  markdownHeadingAnchors: false,
+}
+
+/** 按扩展开关缓存的 markdown-it 实例 */
+const instances = new Map<string, MarkdownIt>()
+
+/**
+ * 创建 markdown-it 实例
+ * @param extensions 启用的扩展
+ */
+function createMarkdownIt(extensions: MarkdownExtensions): MarkdownIt {
+  const md = new MarkdownIt({
+    html: true, // 允许 HTML 标签
+    linkify: true, // 自动识别链接
+    typographer: true, // 启用排版优化
+    breaks: true, // 将换行符转换为 <br>
+    highlight: (code: string, lang: string): string => {
+      // 使用编辑器的 Lezer 解析器高亮，解析器未加载时先输出纯文本
+      const highlighted = highlightCode(code, lang) ?? md.utils.escapeHtml(code)
+      return `<pre class="hljs"><code class="language-${md.utils.escapeHtml(lang)}">${highlighted}</code></pre>`
+    },
+  })
+
+  // YAML Front Matter（文档开头的 --- 元数据）
+  md.use(frontMatterPlugin)
+
+  // 数学公式（$...$ / $$...$$）
+  md.use(mathPlugin)
+
+  // Mermaid 图表（```mermaid）
+  md.use(diagramPlugin)
+
+  // 任务列表（- [ ] / - [x]）
+  md.use(taskListPlugin)
+
+  // Wiki 链接（[[笔记名]]）
+  md.use(wikiLinkPlugin)
+
+  // 可选的扩展语法（脚注、提示块、定义列表等）
+  applyMarkdownExtensions(md, extensions)
+
+  // 自定义图片渲染规则
+  const defaultImageRender =
+    md.renderer.rules.image ||
+    function (tokens, idx, options, _env, self) {
+      return self.renderToken(tokens, idx, options)
+    }
+
+  md.renderer.rules.image = (tokens, idx, options, env: RenderEnv, self) => {
+    const token = tokens[idx]
+    if (!token) return defaultImageRender(tokens, idx, options, env, self)
+
+    const srcIndex = token.attrIndex('src')
+
+    if (srcIndex >= 0 && token.attrs && token.attrs[srcIndex]) {
+      const src = token.attrs[srcIndex][1]
+      if (src) {
+        token.attrs[srcIndex][1] = transformImageSrc(src, env.filePath, env.imageBasePath)
+      }
+    }
+
+    return defaultImageRender(tokens, idx, options, env, self)
+  }
+
+  // 块级元素记录源码行范围（同步滚动时按行对齐编辑器和预览，大纲跳转时定位标题）
+  md.core.ruler.push('source_line', (state) => {
+    for (const token of state.tokens) {
+      if (!token.map || token.nesting === -1 || token.type === 'inline') continue
+      token.attrSet('data-source-line', String(token.map[0] + 1))
+      token.attrSet('data-source-end', String(token.map[1] + 1))
+    }
+  })
+
+  // 代码块、公式、元数据卡片、提示块自行输出 HTML（不经过 renderToken），在首个标签中补上行号
+  for (const name of ['fence', 'math_block', 'front_matter', 'alert_open']) {
+    const rule = md.renderer.rules[name]
+    if (!rule) continue
+    md.renderer.rules[name] = (tokens, idx, options, env, self) => {
+      const html = rule(tokens, idx, options, env, self)
+      return html.replace(/^<[a-z][a-z0-9-]*/i, (tag) => tag + self.renderAttrs(tokens[idx]!))
+    }
+  }
+
+  return md
+}
+
+/**
+ * 获取启用了指定扩展的 markdown-it 实例
+ */
+function getMarkdownIt(extensions: MarkdownExtensions): MarkdownIt {
+  const key = MARKDOWN_EXTENSION_KEYS.map((name) => (extensions[name] ? 1 : 0)).join('')
+  let md = instances.get(key)
+  if (!md) {
+    md = createMarkdownIt(extensions)
+    instances.set(key, md)
+  }
+  return md
+}
+
+/**
+ * 解析 Markdown 为 token 流（不渲染）
+ * @param content Markdown 内容
+ */
+export function parseMarkdown(content: string): Token[] {
+  const env: RenderEnv = {
+    filePath: null,
+    imageBasePath: null,
+    frontMatter: 'hidden',
+    wikiLinks: null,
+  }
+  return getMarkdownIt(PARSE_EXTENSIONS).parse(content, env)
+}
+
+/**
+ * 块级 HTML 中未闭合的元素数（<details> 等跨越多个块的 HTML 需要合并为一个块）
+ */
+function countOpenHtmlTags(html: string): number {
+  let count = 0
+  for (const [, closing, tag] of html.matchAll(HTML_TAG_PATTERN)) {
+    if (VOID_ELEMENTS.has(tag!.toLowerCase())) continue
+    count += closing ? -1 : 1
+  }
+  return count
+}
+
+/**
+ * 把 token 流拆分为顶层块
+ */
+function splitBlocks(tokens: Token[]): Token[][] {
+  const blocks: Token[][] = []
+  let current: Token[] = []
+  let depth = 0
+  let openHtmlTags = 0
+
+  for (const token of tokens) {
+    current.push(token)
+    depth += token.nesting
+    if (token.type === 'html_block') {
+      openHtmlTags = Math.max(0, openHtmlTags + countOpenHtmlTags(token.content))
+    }
+    if (depth === 0 && openHtmlTags === 0) {
+      blocks.push(current)
+      current = []
+    }
+  }
+  if (current.length > 0) {
+    blocks.push(current)
+  }
+  return blocks
+}
+
+/**
+ * 生成 token 的摘要（忽略源码行号）
+ */
+function serializeToken(token: Token): unknown[] {
+  return [
+    token.type,
+    token.tag,
+    token.attrs?.filter(([name]) => !SOURCE_LINE_ATTRS.has(name)) ?? null,
+    token.content,
+    token.info,
+    token.markup,
+    token.hidden,
+    token.meta,
+    token.children?.map(serializeToken) ?? null,
+  ]
+}
+
+/**
+ * 平移 HTML 中的源码行号
+ */
+function shiftSourceLines(html: string, delta: number): string {
+  if (delta === 0) return html
+  return html.replace(
+    SOURCE_LINE_PATTERN,
+    (_match, name: string, line: string) => ` data-${name}="${Number(line) + delta}"`,
+  )
+}
+
+/**
+ * 按顶层块渲染 Markdown（未消毒）
+ * 解析整篇文档以保证引用链接、脚注、标题锚点等与整体渲染一致，
+ * 但只有 token 发生变化的块会重新渲染，其余块复用缓存（位置移动时平移行号）。
+ * @param content Markdown 内容
+ * @param filePath 文档路径（用于解析相对路径图片）
+ * @param options 渲染选项
+ * @param cache 渲染缓存（渲染后只保留本次用到的块；渲染选项变化时需要由调用方清空）
+ */
+export function renderMarkdownBlocks(
+  content: string,
+  filePath: string | null,
+  options: RenderOptions,
+  cache: BlockCache,
+): RenderedBlock[] {
+  const env: RenderEnv = {
+    filePath,
+    imageBasePath: options.imageBasePath ?? null,
+    frontMatter: options.frontMatter ?? 'collapsed',
+    wikiLinks: options.wikiLinks ?? null,
+  }
+  const md = getMarkdownIt(options.extensions ?? DEFAULT_EXTENSIONS)
+  const tokens = md.parse(content, env)
+
+  const previous = new Map(cache)
+  cache.clear()
+
+  return splitBlocks(tokens).map((block) => {
+    const key = JSON.stringify(block.map(serializeToken))
+    const line = block.find((token) => token.map)?.map?.[0] ?? 0
+
+    let entry = previous.get(key) ?? cache.get(key)
+    if (entry) {
+      entry = { ...entry, html: shiftSourceLines(entry.html, line - entry.line), line }
+    } else {
+      entry = {
+        html: md.renderer.render(block, md.options, env),
+        diagrams: block
+          .filter((token) => token.type === 'fence' && isDiagramFence(token.info))
+          .map((token) => token.content),
+        line,
+      }
+    }
+    cache.set(key, entry)
+    return { html: entry.html, diagrams: entry.diagrams }
+  })
+}
+
+/**
+ * 预先完成文档中的异步渲染：加载代码块的语言解析器、渲染图表
+ * 导出时只渲染一次，需要在渲染前调用以保证代码块被高亮、图表被绘制
+ * @param content Markdown 内容
+ */
+export async function prepareMarkdown(content: string): Promise<void> {
+  const fences = parseMarkdown(content).filter((token) => token.type === 'fence')
+  const diagrams = fences.filter((token) => isDiagramFence(token.info))
+  const codeBlocks = fences.filter((token) => !isDiagramFence(token.info))
+  await Promise.all([
+    loadCodeLanguages(codeBlocks.map((token) => token.info.trim().split(/\s+/)[0] ?? '')),
+    renderDiagrams(diagrams.map((token) => token.content)),
+  ])
+}
+
+// ========== 消毒 ==========
+
+/** 正在消毒的文档路径（供 DOMPurify 钩子解析 HTML 图片路径） */
+let sanitizingFilePath: string | null = null
+
+/** 正在消毒的文档中，相对路径图片改写的基准文件 */
+let sanitizingImageBasePath: string | null = null
+
+/** 是否已注册 DOMPurify 钩子 */
+let hooksRegistered = false
+
+/**
+ * 注册 DOMPurify 钩子（只注册一次，重复注册会使钩子叠加执行）
+ */
+function registerSanitizeHooks(): void {
+  if (hooksRegistered) return
+  hooksRegistered = true
+
+  // 强制外部链接在新窗口打开，并添加 rel="noopener noreferrer"
+  DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+    if (node.tagName === 'A') {
+      const href = node.getAttribute('href')
+      // 锚点和指向其他笔记的链接在应用内打开
+      if (href && !href.startsWith('#') && !isNoteLinkHref(href)) {
+        node.setAttribute('target', '_blank')
+        node.setAttribute('rel', 'noopener noreferrer')
+      }
+    }
+    // 如果允许 iframe，强制添加 sandbox 属性以提高安全性
+    if (node.tagName === 'IFRAME') {
+      node.setAttribute('sandbox', 'allow-scripts allow-same-origin')
+    }
+    // 处理 HTML 标签中的 img src (markdown-it 只能处理 markdown 语法图片)
+    if (node.tagName === 'IMG') {
+      const src = node.getAttribute('src')
+      if (src) {
+        node.setAttribute(
+          'src',
+          transformImageSrc(src, sanitizingFilePath, sanitizingImageBasePath),
+        )
+      }
+    }
+  })
+}
+
+/**
+ * 使用 DOMPurify 消毒，防止 XSS（图表占位符需要在消毒后再填充）
+ * @param rawHtml markdown-it 输出的 HTML
+ * @param filePath 文档路径（用于解析 HTML 标签中的相对路径图片）
+ * @param imageBasePath 相对路径图片改写为相对于此文件的路径（为空时转换为绝对路径）
+ */
+export function sanitizeHtml(
+  rawHtml: string,
+  filePath: string | null,
+  imageBasePath: string | null = null,
+): string {
+  registerSanitizeHooks()
+  sanitizingFilePath = filePath
+  sanitizingImageBasePath = imageBasePath
+  try {
+    return DOMPurify.sanitize(rawHtml, {
+      USE_PROFILES: { html: true, svg: true }, // KaTeX 的根号、箭头等使用 SVG 绘制
+      ADD_ATTR: ['target', 'allow'], // 允许 target 和 allow (用于 iframe)
+      ADD_TAGS: ['iframe'], // 允许嵌入视频
+      FORBID_TAGS: ['script', 'style'], // 显式禁止脚本和样式标签
+      FORBID_ATTR: ['onmouseover', 'onclick', 'onerror', 'onload'], // 显式禁止事件处理器
+      ALLOWED_URI_SCHEMES: ['http', 'https', 'ftp', 'mailto', 'tel', 'file', 'data'], // 允许 file 和 data 协议
+    } as object) as string // Cast to object to avoid type error with ALLOWED_URI_SCHEMES, and cast result to string
+  } finally {
+    sanitizingFilePath = null
+    sanitizingImageBasePath = null
+  }
+}
+
+/**
+ * 渲染 Markdown 为安全的 HTML
+ * @param content Markdown 内容
+ * @param filePath 文档路径（用于解析相对路径图片）
+ * @param options 渲染选项
+ */
+export function renderMarkdown(
+  content: string,
+  filePath: string | null = null,
+  options: RenderOptions = {},
+): string {
+  // 1. 将 Markdown 转换为 HTML
+  const env: RenderEnv = {
+    filePath,
+    imageBasePath: options.imageBasePath ?? null,
+    frontMatter: options.frontMatter ?? 'collapsed',
+    wikiLinks: options.wikiLinks ?? null,
+  }
+  const md = getMarkdownIt(options.extensions ?? DEFAULT_EXTENSIONS)
+  const rawHtml = md.render(content, env)
+
+  // 2. 使用 DOMPurify 消毒，防止 XSS
+  const html = sanitizeHtml(rawHtml, filePath, env.imageBasePath)
+
+  // 3. 填入图表 SVG（已单独消毒）
+  return fillDiagrams(html)
+}
@@ -0,0 +1,144 @@
+// src/common/markdown/scrollSync.ts
+/**
+ * 🔗 同步滚动的行号映射
+ *
+ * 渲染时块级元素带有源码行范围（data-source-line / data-source-end），
+ * 据此在预览的滚动位置与源码行号之间换算。行号可以带小数（表示行内的位置），
+ * 图片、表格、代码块在两侧高度不同时也能保持对齐。
+ */
+
+/**
+ * 带源码行范围的块
+ */
+interface SourceBlock {
+  element: HTMLElement
+  /** 起始行（从 1 开始） */
+  start: number
+  /** 结束行（不含） */
+  end: number
+  /** 相对于滚动内容顶部的位置 */
+  top: number
+  /** 高度 */
+  height: number
+}
+
+/**
+ * 收集预览中带行号的块（按文档顺序，嵌套的块排在外层块之后）
+ */
+function collectBlocks(container: HTMLElement): SourceBlock[] {
+  const contentTop = container.getBoundingClientRect().top - container.scrollTop
+  const blocks: SourceBlock[] = []
+
+  container.querySelectorAll<HTMLElement>('[data-source-line]').forEach((element) => {
+    // 折叠起来的内容没有布局
+    if (element.getClientRects().length === 0) return
+
+    const start = Number(element.dataset.sourceLine)
+    const end = Number(element.dataset.sourceEnd)
+    if (!Number.isFinite(start)) return
+
+    const rect = element.getBoundingClientRect()
+    blocks.push({
+      element,
+      start,
+      end: Number.isFinite(end) && end > start ? end : start + 1,
+      top: rect.top - contentTop,
+      height: rect.height,
+    })
+  })
+
+  return blocks
+}
+
+/**
+ * 查找行号前后的块：previous 为最后一个起始行不大于该行的块（嵌套时取最内层），next 为其后的第一个块
+ */
+function findBlocksByLine(
+  blocks: SourceBlock[],
+  line: number,
+): { previous?: SourceBlock; next?: SourceBlock } {
+  let previous: SourceBlock | undefined
+  for (const block of blocks) {
+    if (block.start > line) return { previous, next: block }
+    previous = block
+  }
+  return { previous }
+}
+
+/**
+ * 源码行号对应的预览滚动位置
+ * @param container 预览的滚动容器
+ * @param line 行号（从 1 开始，可带小数）
+ */
+export function getOffsetForLine(container: HTMLElement, line: number): number {
+  const blocks = collectBlocks(container)
+  const { previous, next } = findBlocksByLine(blocks, line)
+
+  // 行在块内：按行在块中的比例定位
+  if (previous && line < previous.end) {
+    const ratio = (line - previous.start) / (previous.end - previous.start)
+    return previous.top + previous.height * ratio
+  }
+
+  // 行在最后一个块之后：滚动到底部
+  if (!next) {
+    return previous ? container.scrollHeight : 0
+  }
+
+  // 行在两个块之间（空行、未标注行号的 HTML 等）：在间隙中插值
+  const gapTop = previous ? previous.top + previous.height : 0
+  const gapStart = previous ? previous.end : 1
+  const ratio = Math.min(Math.max((line - gapStart) / (next.start - gapStart), 0), 1)
+  return gapTop + (next.top - gapTop) * ratio
+}
+
+/**
+ * 预览滚动位置对应的源码行号
+ * @param container 预览的滚动容器
+ * @param offset 相对于滚动内容顶部的位置
+ * @returns 行号（从 1 开始，可带小数）
+ */
+export function getLineForOffset(container: HTMLElement, offset: number): number {
+  const blocks = collectBlocks(container)
+
+  let previous: SourceBlock | undefined
+  let next: SourceBlock | undefined
+  for (const block of blocks) {
+    if (block.top > offset) {
+      next = block
+      break
+    }
+    previous = block
+  }
+
+  if (!previous) {
+    return next && next.top > 0 ? 1 + (next.start - 1) * (offset / next.top) : 1
+  }
+
+  // 位置在块内
+  const bottom = previous.top + previous.height
+  if (offset < bottom) {
+    const ratio = (offset - previous.top) / previous.height
+    return previous.start + (previous.end - previous.start) * ratio
+  }
+
+  if (!next) {
+    return previous.end
+  }
+
+  // 位置在两个块之间
+  const ratio = (offset - bottom) / (next.top - bottom)
+  return previous.end + (next.start - previous.end) * ratio
+}
+
+/**
+ * 源码行所在的最内层块（嵌套的块排在外层块之后，取最后一个）
+ * @param container 预览的滚动容器
+ * @param line 行号（从 1 开始）
+ */
+export function findElementForLine(container: HTMLElement, line: number): HTMLElement | null {
+  const containing = collectBlocks(container).filter(
+    (block) => block.start <= line && line < block.end,
+  )
+  return containing.pop()?.element ?? null
+}
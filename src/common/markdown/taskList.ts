@@ -0,0 +1,171 @@
+// src/common/markdown/taskList.ts
+/**
+ * ☑️ 任务列表
+ *
+ * 把 GFM 的 `- [ ]` / `- [x]` 列表项渲染为复选框。复选框记录标记所在的源码行，
+ * 预览中点击时直接修改源码中的标记字符。
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type Token from 'markdown-it/lib/token.mjs'
+
+/** 列表项开头的任务标记 */
+const TASK_MARKER = /^\[([ xX])\](?=\s|$)/
+
+/** 源码行中的任务标记（可位于引用和列表标记之后） */
+const SOURCE_TASK_MARKER = /^([ \t>]*(?:(?:[-+*]|\d{1,9}[.)])[ \t]+)?)\[([ xX])\]/
+
+/** 文档中的任务标记（用于在解析前快速判断文档是否包含任务） */
+const DOCUMENT_TASK_MARKER = /^[ \t>]*(?:(?:[-+*]|\d{1,9}[.)])[ \t]+)+\[[ xX]\]/m
+
+/**
+ * 任务列表（一个直接包含任务项的列表）
+ */
+export interface TaskList {
+  /** 列表起始行（从 1 开始） */
+  line: number
+  /** 第一个任务的文本 */
+  title: string
+  /** 任务数 */
+  total: number
+  /** 已完成数 */
+  done: number
+}
+
+/**
+ * 列表项上记录的任务信息
+ */
+interface TaskMeta {
+  task: {
+    checked: boolean
+    /** 标记所在的源码行（从 1 开始） */
+    line: number
+    text: string
+  }
+}
+
+function isTaskMeta(meta: unknown): meta is TaskMeta {
+  return typeof meta === 'object' && meta !== null && 'task' in meta
+}
+
+/**
+ * 切换源码中指定行的任务标记
+ * @param content Markdown 内容
+ * @param line 标记所在的行（从 1 开始）
+ * @returns 修改后的内容；该行没有任务标记时返回 null
+ */
+export function toggleTask(content: string, line: number): string | null {
+  const lines = content.split('\n')
+  const text = lines[line - 1]
+  if (text === undefined) return null
+
+  const match = SOURCE_TASK_MARKER.exec(text)
+  if (!match) return null
+
+  const index = match[1]!.length + 1
+  const mark = match[2] === ' ' ? 'x' : ' '
+  lines[line - 1] = text.slice(0, index) + mark + text.slice(index + 1)
+  return lines.join('\n')
+}
+
+/**
+ * 文档是否可能包含任务（不包含时不必解析整篇文档）
+ * @param content Markdown 内容
+ */
+export function hasTaskMarkers(content: string): boolean {
+  return DOCUMENT_TASK_MARKER.test(content)
+}
+
+/**
+ * 统计文档中的任务列表
+ * @param tokens 解析后的 token 流
+ */
+export function collectTaskLists(tokens: Token[]): TaskList[] {
+  const lists: TaskList[] = []
+  /** 当前路径上的列表（未包含任务的为 null） */
+  const stack: (TaskList | null)[] = []
+  /** 当前路径上列表的起始行（第一个任务出现时才创建统计） */
+  const listLines: number[] = []
+
+  for (const token of tokens) {
+    if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+      stack.push(null)
+      listLines.push((token.map?.[0] ?? 0) + 1)
+    } else if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+      stack.pop()
+      listLines.pop()
+    } else if (token.type === 'list_item_open' && isTaskMeta(token.meta) && stack.length > 0) {
+      const depth = stack.length - 1
+      let list = stack[depth]
+      if (!list) {
+        list = { line: listLines[depth]!, title: token.meta.task.text, total: 0, done: 0 }
+        stack[depth] = list
+        lists.push(list)
+      }
+      list.total++
+      if (token.meta.task.checked) list.done++
+    }
+  }
+
+  return lists
+}
+
+/**
+ * markdown-it 任务列表插件
+ */
+export function taskListPlugin(md: MarkdownIt): void {
+  md.core.ruler.after('inline', 'task_list', (state) => {
+    const tokens = state.tokens
+    /** 各层级最近打开的块（按 level 索引，用于查找任务项所在的列表） */
+    const openBlocks: Token[] = []
+
+    for (let i = 0; i < tokens.length; i++) {
+      const inline = tokens[i]!
+      if (inline.nesting === 1) {
+        openBlocks[inline.level] = inline
+      }
+      if (i < 2) continue
+
+      const paragraph = tokens[i - 1]!
+      const item = tokens[i - 2]!
+      if (
+        inline.type !== 'inline' ||
+        paragraph.type !== 'paragraph_open' ||
+        item.type !== 'list_item_open'
+      ) {
+        continue
+      }
+
+      const first = inline.children?.[0]
+      const match = TASK_MARKER.exec(inline.content)
+      if (
+        !match ||
+        !paragraph.map ||
+        first?.type !== 'text' ||
+        !first.content.startsWith(match[0])
+      ) {
+        continue
+      }
+
+      const checked = match[1] !== ' '
+      const line = paragraph.map[0] + 1
+      first.content = first.content.slice(match[0].length).trimStart()
+
+      const checkbox = new state.Token('html_inline', '', 0)
+      checkbox.content = `<input type="checkbox" class="task-checkbox" data-task-line="${line}"${checked ? ' checked' : ''}>`
+      inline.children!.unshift(checkbox)
+
+      item.attrJoin('class', 'task-list-item')
+      item.meta = {
+        task: { checked, line, text: inline.content.slice(match[0].length).trim().split('\n')[0]! },
+      } satisfies TaskMeta
+
+      // 所在列表
+      const list = openBlocks[item.level - 1]
+      const isList = list?.type === 'bullet_list_open' || list?.type === 'ordered_list_open'
+      if (isList && list.attrGet('class') === null) {
+        list.attrSet('class', 'contains-task-list')
+      }
+    }
+  })
+}
@@ -0,0 +1,185 @@
+// src/common/markdown/wikiLink.ts
+/**
+ * 🔗 Wiki 链接
+ *
+ * `[[笔记名]]`、`[[笔记名#标题]]`、`[[笔记名#标题|显示文本]]`、`[[#标题]]`（当前笔记）。
+ * 笔记名按当前文件所在文件夹中的 Markdown 文件解析（不区分大小写，可省略扩展名）。
+ * 渲染时通过 env.wikiLinks 查询链接目标，找不到的链接单独标记；
+ * 未提供解析函数时（如导出）只显示链接文本。
+ */
+
+import { getBaseName } from '@/common/utils/path'
+import type MarkdownIt from 'markdown-it'
+import type Token from 'markdown-it/lib/token.mjs'
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs'
+
+const OPEN_BRACKET = 0x5b
+
+/** [[...]] 中的内容：不含方括号和换行 */
+const WIKI_LINK_BODY = /^\[\[([^[\]\n]+)\]\]/
+
+/**
+ * Wiki 链接
+ */
+export interface WikiLink {
+  /** 目标笔记名（为空时指向当前笔记） */
+  target: string
+  /** 目标标题 */
+  heading: string | null
+  /** 显示文本 */
+  alias: string | null
+}
+
+/**
+ * 文档中的一处 Wiki 链接
+ */
+export interface WikiLinkOccurrence {
+  link: WikiLink
+  /** 所在行（从 1 开始） */
+  line: number
+  /** 所在行的文本（用于显示上下文） */
+  snippet: string
+}
+
+/**
+ * 链接解析函数：返回目标笔记的路径，找不到时返回 null
+ */
+export type WikiLinkResolver = (target: string) => string | null
+
+/**
+ * 解析 [[...]] 中的内容
+ * @param raw 方括号中的文本，如 `笔记#标题|别名`
+ */
+export function parseWikiLink(raw: string): WikiLink {
+  const pipeIndex = raw.indexOf('|')
+  const reference = pipeIndex >= 0 ? raw.slice(0, pipeIndex) : raw
+  const alias = pipeIndex >= 0 ? raw.slice(pipeIndex + 1).trim() : ''
+
+  const hashIndex = reference.indexOf('#')
+  const target = hashIndex >= 0 ? reference.slice(0, hashIndex) : reference
+  const heading = hashIndex >= 0 ? reference.slice(hashIndex + 1).trim() : ''
+
+  return { target: target.trim(), heading: heading || null, alias: alias || null }
+}
+
+/**
+ * 链接的显示文本
+ */
+export function getWikiLinkLabel(link: WikiLink): string {
+  if (link.alias) return link.alias
+  if (!link.heading) return link.target
+  return link.target ? `${link.target}#${link.heading}` : link.heading
+}
+
+/**
+ * 去掉 Markdown 扩展名后的笔记名（用于比较）
+ */
+function getNoteKey(name: string): string {
+  return name.replace(/\.(md|markdown)$/i, '').toLowerCase()
+}
+
+/**
+ * 在文件夹的笔记中查找链接目标
+ * @param target 目标笔记名（为空时指向当前笔记）
+ * @param notePaths 当前文件夹中的笔记路径
+ * @param currentPath 当前笔记路径
+ */
+export function resolveWikiLink(
+  target: string,
+  notePaths: readonly string[],
+  currentPath: string | null,
+): string | null {
+  if (!target) return currentPath
+
+  const key = getNoteKey(target)
+  return notePaths.find((path) => getNoteKey(getBaseName(path)) === key) ?? null
+}
+
+/**
+ * 收集文档中的 Wiki 链接
+ * @param tokens 解析后的 token 流
+ * @param content Markdown 内容（用于定位链接所在的行）
+ */
+export function collectWikiLinks(tokens: Token[], content: string): WikiLinkOccurrence[] {
+  const lines = content.split('\n')
+  const occurrences: WikiLinkOccurrence[] = []
+
+  for (const token of tokens) {
+    if (token.type !== 'inline' || !token.map || !token.children) continue
+
+    // 同一段落中的链接按顺序在各行中查找
+    let lineIndex = token.map[0]
+    for (const child of token.children) {
+      if (child.type !== 'wiki_link') continue
+
+      const markup = `[[${child.content}]]`
+      let found = lineIndex
+      while (found < token.map[1] && !lines[found]?.includes(markup)) {
+        found++
+      }
+      if (found < token.map[1]) lineIndex = found
+
+      occurrences.push({
+        link: child.meta as WikiLink,
+        line: lineIndex + 1,
+        snippet: (lines[lineIndex] ?? '').trim(),
+      })
+    }
+  }
+
+  return occurrences
+}
+
+// ========== markdown-it 插件 ==========
+
+function wikiLinkInline(state: StateInline, silent: boolean): boolean {
+  if (
+    state.src.charCodeAt(state.pos) !== OPEN_BRACKET ||
+    state.src.charCodeAt(state.pos + 1) !== OPEN_BRACKET
+  ) {
+    return false
+  }
+
+  const match = WIKI_LINK_BODY.exec(state.src.slice(state.pos, state.posMax))
+  if (!match || !match[1]!.trim()) return false
+
+  if (!silent) {
+    const token = state.push('wiki_link', '', 0)
+    token.markup = '[['
+    token.content = match[1]!
+    token.meta = parseWikiLink(match[1]!)
+  }
+  state.pos += match[0].length
+  return true
+}
+
+/**
+ * markdown-it Wiki 链接插件
+ * 通过 env.wikiLinks 解析链接目标
+ */
+export function wikiLinkPlugin(md: MarkdownIt): void {
+  md.inline.ruler.before('link', 'wiki_link', wikiLinkInline)
+
+  md.renderer.rules.wiki_link = (
+    tokens,
+    idx,
+    _options,
+    env: { wikiLinks?: WikiLinkResolver | null },
+  ) => {
+    const link = tokens[idx]!.meta as WikiLink
+    const label = md.utils.escapeHtml(getWikiLinkLabel(link))
+
+    if (!env.wikiLinks) {
+      return `<span class="wiki-link">${label}</span>`
+    }
+
+    const path = env.wikiLinks(link.target)
+    if (!path) {
+      return `<span class="wiki-link wiki-link-unresolved" title="笔记不存在">${label}</span>`
+    }
+
+    const heading = link.heading ? ` data-wiki-heading="${md.utils.escapeHtml(link.heading)}"` : ''
+    const title = md.utils.escapeHtml(getBaseName(path) + (link.heading ? `#${link.heading}` : ''))
+    return `<a class="wiki-link" data-wiki-path="${md.utils.escapeHtml(path)}"${heading} title="${title}">${label}</a>`
+  }
+}
@@ -10,6 +10,21 @@
  * 业务层只依赖此 Interface，平台层负责具体实现。
  */
 
+/**
+ * 保存时的备份策略
+ * - none: 不备份
+ * - single: 保留一个 .bak 备份
+ * - rotate: 轮换保留多个备份（.bak.1 为最新）
+ */
+export type BackupMode = 'none' | 'single' | 'rotate'
+
+/**
+ * 粘贴/拖入图片的保存格式
+ * - original: 保持原格式
+ * - png / jpeg / webp: 转换为指定格式（GIF 与 SVG 始终保持原格式）
+ */
+export type ImageFormat = 'original' | 'png' | 'jpeg' | 'webp'
+
 /**
  * 应用配置
  */
@@ -30,14 +45,50 @@ export interface AppSettings {
   autoSave: boolean
   /** 自动保存延迟（毫秒） */
   autoSaveDelay: number
+  /** 保存时的备份策略 */
+  backupMode: BackupMode
+  /** 轮换备份保留数量 (1-10) */
+  backupCount: number
+  /** 热退出：关闭时保留未保存的文档，下次启动时自动恢复 */
+  hotExit: boolean
+  /** 从外部打开的文件使用新窗口（否则在已运行的窗口中以标签打开） */
+  newWindowPerFile: boolean
+  /** 保存时记录版本历史 */
+  historyEnabled: boolean
+  /** 每个文件最多保留的历史版本数 (10-200) */
+  historyMaxEntries: number
+  /** 历史版本最多保留的天数（0 表示不限） */
+  historyMaxDays: number
   /** 显示行号 */
   showLineNumbers: boolean
   /** Tab 大小 */
   tabSize: number
   /** 预览同步滚动 */
   syncScroll: boolean
+  /** 在预览中以元数据卡片显示 YAML Front Matter（否则隐藏） */
+  showFrontMatter: boolean
+  /** Markdown 扩展：脚注（[^1]） */
+  markdownFootnotes: boolean
+  /** Markdown 扩展：GitHub 提示块（> [!NOTE]） */
+  markdownAlerts: boolean
+  /** Markdown 扩展：定义列表 */
+  markdownDefinitionLists: boolean
+  /** Markdown 扩展：缩写（*[HTML]: ...） */
+  markdownAbbreviations: boolean
+  /** Markdown 扩展：::: 自定义容器 */
+  markdownContainers: boolean
+  /** Markdown 扩展：标题锚点 */
+  markdownHeadingAnchors: boolean
   /** 预览字体家族 */
   previewFontFamily: string
+  /** 粘贴/拖入图片的保存文件夹（相对于笔记所在文件夹，可使用 {note}） */
+  imageFolder: string
+  /** 图片文件名格式（不含扩展名，可使用 {note} {name} {date} {time} {timestamp}） */
+  imageNamePattern: string
+  /** 图片最大宽度（像素，超出时等比缩小，0 表示不缩小） */
+  imageMaxWidth: number
+  /** 图片保存格式 */
+  imageFormat: ImageFormat
 }
 
 /**
@@ -53,9 +104,27 @@ export const DEFAULT_SETTINGS: AppSettings = {
   preferredLightTheme: 'light-morning',
   autoSave: false,
   autoSaveDelay: 3000,
+  backupMode: 'none',
+  backupCount: 3,
+  hotExit: false,
+  newWindowPerFile: false,
+  historyEnabled: true,
+  historyMaxEntries: 50,
+  historyMaxDays: 30,
   showLineNumbers: true,
   tabSize: 4,
   syncScroll: true,
+  showFrontMatter: true,
+  markdownFootnotes: true,
+  markdownAlerts: true,
+  markdownDefinitionLists: true,
+  markdownAbbreviations: true,
+  markdownContainers: true,
+  markdownHeadingAnchors: true,
+  imageFolder: './assets',
+  imageNamePattern: '{note}-{timestamp}',
+  imageMaxWidth: 0,
+  imageFormat: 'original',
 }
 
 /**
@@ -9,10 +9,52 @@
  * 业务层只依赖此 Interface，平台层负责具体实现。
  */
 
+import type { BackupMode } from './config'
+
+/**
+ * 支持的文本编码
+ */
+export type TextEncoding =
+    | 'utf-8'
+    | 'utf-16le'
+    | 'utf-16be'
+    | 'gb18030'
+    | 'gbk'
+    | 'big5'
+    | 'shift_jis'
+    | 'euc-kr'
+    | 'windows-1252'
+
+/**
+ * 换行符
+ */
+export type LineEnding = 'lf' | 'crlf'
+
+/**
+ * 文本格式（编辑器内部统一使用 LF，保存时按此格式写回）
+ */
+export interface TextFormat {
+    /** 编码 */
+    encoding: TextEncoding
+    /** 是否带 BOM（仅 UTF-8 / UTF-16） */
+    hasBom: boolean
+    /** 换行符 */
+    lineEnding: LineEnding
+}
+
+/**
+ * 新文件使用的文本格式
+ */
+export const DEFAULT_TEXT_FORMAT: TextFormat = {
+    encoding: 'utf-8',
+    hasBom: false,
+    lineEnding: 'lf',
+}
+
 /**
- * 文件元信息
+ * 文件状态（只查询文件系统，不读取文件内容）
  */
-export interface FileMetadata {
+export interface FileStats {
     /** 文件名（不含路径） */
     fileName: string
     /** 完整文件路径 */
@@ -21,10 +63,60 @@ export interface FileMetadata {
     size: number
     /** 最后修改时间（时间戳） */
     lastModified: number
-    /** 是否只读 */
+    /** 是否只读（当前用户没有写权限或设置了只读属性） */
     isReadOnly: boolean
 }
 
+/**
+ * 文件元信息（文本格式为读取时检测到的或用户选择的格式）
+ */
+export interface FileMetadata extends FileStats, TextFormat {}
+
+/**
+ * 读取的文本文件
+ */
+export interface TextFileContent {
+    /** 文件内容（换行符统一为 LF） */
+    content: string
+    /** 检测到的（或指定编码时对应的）文本格式 */
+    format: TextFormat
+}
+
+/**
+ * 目录条目
+ */
+export interface DirectoryEntry {
+    /** 名称（不含路径） */
+    name: string
+    /** 完整路径 */
+    path: string
+    /** 是否为目录 */
+    isDirectory: boolean
+}
+
+/**
+ * 监听到的文件变化
+ * - changed: 内容被修改（content 为磁盘上的最新内容）
+ * - removed: 文件被删除
+ * - renamed: 文件被改名或移动（newPath 为新路径）
+ */
+export type FileWatchEvent =
+    | { type: 'changed'; content: string }
+    | { type: 'removed' }
+    | { type: 'renamed'; newPath: string }
+
+/**
+ * 写入选项
+ */
+export interface WriteFileOptions {
+    /** 备份策略（默认不备份） */
+    backupMode?: BackupMode
+    /** 轮换备份保留数量 */
+    backupCount?: number
+    /** 文本格式（默认 UTF-8、无 BOM、LF） */
+    textFormat?: TextFormat
+}
+
 /**
  * 文件操作结果
  */
@@ -47,16 +139,25 @@ export interface IFileSystem {
     /**
      * 读取文件内容
      * @param filePath 文件绝对路径
-     * @returns 文件内容字符串
+     * @param encoding 指定编码（默认自动检测）
+     * @returns 文件内容（换行符统一为 LF）及文本格式
      */
-    readFile(filePath: string): Promise<FileOperationResult<string>>
+    readFile(filePath: string, encoding?: TextEncoding): Promise<FileOperationResult<TextFileContent>>
 
     /**
-     * 写入文件内容
+     * 写入文件内容（先写临时文件再替换，保证不会留下写了一半的文件）
      * @param filePath 文件绝对路径
      * @param content 要写入的内容
+     * @param options 写入选项
+     */
+    writeFile(filePath: string, content: string, options?: WriteFileOptions): Promise<FileOperationResult>
+
+    /**
+     * 写入二进制文件（如图片，不存在的上级目录会自动创建）
+     * @param filePath 文件绝对路径
+     * @param data 文件内容
      */
-    writeFile(filePath: string, content: string): Promise<FileOperationResult>
+    writeBinaryFile(filePath: string, data: Uint8Array): Promise<FileOperationResult>
 
     /**
      * 创建新文件
@@ -67,10 +168,16 @@ export interface IFileSystem {
     createFile(directoryPath: string, fileName?: string): Promise<FileOperationResult<string>>
 
     /**
-     * 获取文件元信息
+     * 获取文件状态（不读取内容，文本格式由 readFile 得到）
      * @param filePath 文件绝对路径
      */
-    getFileMetadata(filePath: string): Promise<FileOperationResult<FileMetadata>>
+    getFileMetadata(filePath: string): Promise<FileOperationResult<FileStats>>
+
+    /**
+     * 取消文件的只读状态
+     * @param filePath 文件绝对路径
+     */
+    makeWritable(filePath: string): Promise<FileOperationResult>
 
     /**
      * 检查文件是否存在
@@ -92,15 +199,51 @@ export interface IFileSystem {
     showSaveDialog(defaultFileName: string): Promise<FileOperationResult<string>>
 
     /**
-     * 监听文件变化
+     * 监听文件变化（内容修改、删除、改名）
      * @param filePath 文件路径
      * @param callback 变化回调
+     * @param encoding 读取变化后内容使用的编码（默认自动检测）
      */
-    watchFile(filePath: string, callback: (content: string) => void): Promise<void>
+    watchFile(
+        filePath: string,
+        callback: (event: FileWatchEvent) => void,
+        encoding?: TextEncoding,
+    ): Promise<void>
 
     /**
      * 取消监听文件
      * @param filePath 文件路径
      */
     unwatchFile(filePath: string): Promise<void>
+
+    /**
+     * 列出目录内容（不递归）
+     * @param dirPath 目录绝对路径
+     */
+    listDirectory(dirPath: string): Promise<FileOperationResult<DirectoryEntry[]>>
+
+    /**
+     * 创建目录
+     * @param dirPath 目录绝对路径
+     */
+    createDirectory(dirPath: string): Promise<FileOperationResult>
+
+    /**
+     * 显示"打开文件夹"对话框
+     * @returns 用户选择的目录路径
+     */
+    showOpenFolderDialog(): Promise<FileOperationResult<string>>
+
+    /**
+     * 递归监听目录中文件/目录的增删
+     * @param dirPath 目录路径
+     * @param callback 变化回调（参数为发生变化的路径列表）
+     */
+    watchDirectory(dirPath: string, callback: (changedPaths: string[]) => void): Promise<void>
+
+    /**
+     * 取消监听目录
+     * @param dirPath 目录路径
+     */
+    unwatchDirectory(dirPath: string): Promise<void>
 }
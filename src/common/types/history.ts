@@ -0,0 +1,64 @@
+// src/common/types/history.ts
+/**
+ * 🕘 本地版本历史抽象层接口定义
+ *
+ * 【为什么需要这个接口？】
+ * 多数笔记目录没有 git，误覆盖后无法找回旧内容。
+ * 每次保存时把文件内容记录为一个历史版本：
+ * - Windows: 通过 Electron IPC 写入 userData/history 目录（按内容寻址）
+ * - HarmonyOS: 可使用应用沙箱目录
+ *
+ * 历史按文件路径分组，相同内容只存储一份。
+ */
+
+/**
+ * 历史版本
+ */
+export interface HistoryEntry {
+    /** 版本 ID（同一文件内唯一） */
+    id: string
+    /** 内容哈希 */
+    hash: string
+    /** 记录时间 */
+    savedAt: number
+    /** 内容大小（字节） */
+    size: number
+}
+
+/**
+ * 历史保留策略
+ */
+export interface HistoryRetention {
+    /** 每个文件最多保留的版本数 */
+    maxEntries: number
+    /** 最多保留的天数（0 表示不限） */
+    maxDays: number
+}
+
+/**
+ * IHistoryService 接口
+ * 定义版本历史读写的契约，平台实现层必须遵循此接口
+ */
+export interface IHistoryService {
+    /**
+     * 记录文件的一个版本
+     * 与最近一个版本内容相同时不会重复记录
+     * @param filePath 文件路径
+     * @param content 文件内容
+     * @param retention 保留策略（记录后按此清理旧版本）
+     */
+    recordSnapshot(filePath: string, content: string, retention: HistoryRetention): Promise<void>
+
+    /**
+     * 列出文件的历史版本（最新的在前）
+     * @param filePath 文件路径
+     */
+    listSnapshots(filePath: string): Promise<HistoryEntry[]>
+
+    /**
+     * 读取某个历史版本的内容
+     * @param filePath 文件路径
+     * @param entryId 版本 ID
+     */
+    readSnapshot(filePath: string, entryId: string): Promise<string | null>
+}
@@ -7,5 +7,8 @@
 
 export * from './config'
 export * from './filesystem'
+export * from './history'
+export * from './launch'
+export * from './recovery'
 export * from './system-menu'
 
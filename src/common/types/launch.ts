@@ -0,0 +1,53 @@
+// src/common/types/launch.ts
+/**
+ * ⌨️ 启动选项类型定义
+ *
+ * 主进程解析命令行（见 electron/cli.ts）后，把结构化的启动选项交给渲染进程：
+ * - 首次启动时通过 app.getLaunchOptions() 获取
+ * - 再次启动时由已运行的实例通过 app.onSecondInstance() 接收
+ *
+ * 无界面导出模式（--export）的渲染请求也定义在这里。
+ */
+
+/**
+ * 要打开的文件
+ */
+export interface LaunchFile {
+    filePath: string
+    /** 跳转到的行（从 1 开始） */
+    line: number | null
+    /** 跳转到的列（从 1 开始） */
+    column: number | null
+}
+
+/**
+ * 启动选项
+ */
+export interface LaunchOptions {
+    files: LaunchFile[]
+    /** 在目录中新建文件 */
+    newFile: { directory: string; template: string | null } | null
+    /** 视图模式 */
+    viewMode: 'edit' | 'preview' | 'split' | null
+    /** 以只读方式打开文件 */
+    readOnly: boolean
+}
+
+/**
+ * 无界面导出（--export）时主进程发给渲染进程的渲染请求
+ * PDF 请求 HTML，由主进程打印
+ */
+export interface ExportRenderRequest {
+    /** 请求 ID */
+    id: number
+    /** Markdown 内容 */
+    content: string
+    /** 文档路径 */
+    filePath: string
+    /** HTML 的输出路径（相对路径图片改写为相对于它的路径）；打印 PDF 和纯文本为 null */
+    outputPath: string | null
+    /** 输出格式 */
+    format: 'html' | 'txt'
+    /** 主题 ID（未指定时使用应用设置中的主题） */
+    themeId: string | null
+}
@@ -0,0 +1,62 @@
+// src/common/types/recovery.ts
+/**
+ * 🛟 崩溃恢复抽象层接口定义
+ *
+ * 【为什么需要这个接口？】
+ * 未保存的文档只存在于渲染进程内存中，窗口关闭或崩溃后即丢失。
+ * 恢复服务定期把它们写入持久化存储，下次启动时可以找回：
+ * - Windows: 通过 Electron IPC 写入 userData/recovery 目录
+ * - HarmonyOS: 可使用应用沙箱目录
+ *
+ * 快照按"会话"（一次窗口生命周期）分组，
+ * 仍在运行的会话的快照不会被当作可恢复的内容。
+ */
+
+/**
+ * 文档快照
+ */
+export interface RecoverySnapshot {
+    /** 文档 ID（会话内唯一） */
+    documentId: string
+    /** 文件路径（未命名文档为 null） */
+    filePath: string | null
+    /** 未命名文档的序号 */
+    untitledIndex: number
+    /** 未保存的内容 */
+    content: string
+    /** 快照时间 */
+    savedAt: number
+}
+
+/**
+ * IRecoveryService 接口
+ * 定义恢复快照读写的契约，平台实现层必须遵循此接口
+ */
+export interface IRecoveryService {
+    /**
+     * 保存（覆盖）本次会话中某个文档的快照
+     * @param snapshot 文档快照
+     */
+    saveSnapshot(snapshot: RecoverySnapshot): Promise<void>
+
+    /**
+     * 删除本次会话中某个文档的快照
+     * @param documentId 文档 ID
+     */
+    removeSnapshot(documentId: string): Promise<void>
+
+    /**
+     * 删除本次会话的全部快照
+     */
+    clearSnapshots(): Promise<void>
+
+    /**
+     * 列出之前的会话（崩溃或热退出）遗留的快照
+     */
+    listRecoverableSnapshots(): Promise<RecoverySnapshot[]>
+
+    /**
+     * 删除之前的会话遗留的快照
+     */
+    discardRecoverableSnapshots(): Promise<void>
+}
@@ -0,0 +1,185 @@
+// src/common/utils/diff.ts
+/**
+ * 🔀 按行比较文本差异
+ *
+ * 使用 Myers 差分算法（O((N+M)D)），先去掉公共前后缀以缩小规模。
+ * 差异过大时（编辑距离超过上限）不再逐行细分，整段视为一处修改，
+ * 避免在两份完全不同的大文件上占用过多内存。
+ */
+
+/**
+ * 差异片段
+ * - equal: 两侧相同的行
+ * - change: 一处修改（mine 为本地内容，theirs 为另一侧内容，任一侧可为空）
+ */
+export type DiffSegment =
+  | { type: 'equal'; lines: string[] }
+  | { type: 'change'; mine: string[]; theirs: string[] }
+
+/** 编辑距离上限 */
+const MAX_EDIT_DISTANCE = 4000
+
+/** 编辑操作：相同 / 仅在 mine 中 / 仅在 theirs 中 */
+type EditOp = 'equal' | 'delete' | 'insert'
+
+/**
+ * 计算最短编辑脚本
+ * @returns 编辑操作序列，超出编辑距离上限时返回 null
+ */
+function shortestEdit(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max
+  const v = new Int32Array(2 * max + 2)
+  // trace[d] 保存第 d 轮开始前 k ∈ [-d, d] 范围内的 v，用于回溯
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+          ? v[offset + k + 1]!
+          : v[offset + k - 1]! + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m)
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * 根据 trace 回溯出编辑操作序列
+ */
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d]!
+    const get = (k: number) => snapshot[k + d]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1
+    const prevX = get(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal')
+      x--
+      y--
+    }
+    ops.push(x === prevX ? 'insert' : 'delete')
+    x = prevX
+    y = prevY
+  }
+
+  // d = 0：剩余部分全部相同
+  while (x > 0 && y > 0) {
+    ops.push('equal')
+    x--
+    y--
+  }
+
+  return ops.reverse()
+}
+
+/**
+ * 比较两段文本的差异（按行）
+ * @param mine 本地内容
+ * @param theirs 另一侧内容
+ */
+export function diffLines(mine: string, theirs: string): DiffSegment[] {
+  const a = mine.split('\n')
+  const b = theirs.split('\n')
+
+  // 公共前缀
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+
+  // 公共后缀
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const segments: DiffSegment[] = []
+  const pushEqual = (line: string) => {
+    const last = segments[segments.length - 1]
+    if (last?.type === 'equal') {
+      last.lines.push(line)
+    } else {
+      segments.push({ type: 'equal', lines: [line] })
+    }
+  }
+  const pushChange = (side: 'mine' | 'theirs', line: string) => {
+    let last = segments[segments.length - 1]
+    if (last?.type !== 'change') {
+      last = { type: 'change', mine: [], theirs: [] }
+      segments.push(last)
+    }
+    last[side].push(line)
+  }
+
+  a.slice(0, start).forEach(pushEqual)
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+  const ops = shortestEdit(middleA, middleB)
+
+  if (ops) {
+    let i = 0
+    let j = 0
+    for (const op of ops) {
+      if (op === 'equal') {
+        pushEqual(middleA[i++]!)
+        j++
+      } else if (op === 'delete') {
+        pushChange('mine', middleA[i++]!)
+      } else {
+        pushChange('theirs', middleB[j++]!)
+      }
+    }
+  } else if (middleA.length > 0 || middleB.length > 0) {
+    segments.push({ type: 'change', mine: middleA, theirs: middleB })
+  }
+
+  a.slice(endA).forEach(pushEqual)
+
+  return segments
+}
+
+/**
+ * 按每处修改的选择合并差异片段
+ * @param segments diffLines 的结果
+ * @param useTheirs 判断第 index 个片段是否采用 theirs
+ */
+export function mergeSegments(
+  segments: DiffSegment[],
+  useTheirs: (index: number) => boolean,
+): string {
+  const lines: string[] = []
+  segments.forEach((segment, index) => {
+    if (segment.type === 'equal') {
+      lines.push(...segment.lines)
+    } else {
+      lines.push(...(useTheirs(index) ? segment.theirs : segment.mine))
+    }
+  })
+  return lines.join('\n')
+}
@@ -0,0 +1,205 @@
+// src/common/utils/imageAsset.ts
+/**
+ * 🖼️ 粘贴/拖入图片的处理
+ *
+ * 图片保存到笔记旁的资源文件夹，笔记中插入相对路径的链接：
+ * - 文件夹与文件名按设置中的格式生成（占位符见 ASSET_NAME_PLACEHOLDERS）
+ * - 可选缩小超宽的图片、转换保存格式（在渲染进程中用 Canvas 完成）
+ */
+
+import type { ImageFormat } from '@/common/types'
+
+/**
+ * 文件夹与文件名格式中可用的占位符
+ */
+export const ASSET_NAME_PLACEHOLDERS: Record<string, string> = {
+  '{note}': '笔记文件名（不含扩展名）',
+  '{name}': '图片原文件名（粘贴的截图为 image）',
+  '{date}': '日期，如 20240131',
+  '{time}': '时间，如 153045',
+  '{timestamp}': '毫秒时间戳',
+}
+
+/**
+ * 处理后的图片
+ */
+export interface ProcessedImage {
+  /** 文件内容 */
+  data: Uint8Array
+  /** 扩展名（不含点） */
+  extension: string
+}
+
+/**
+ * 图片处理选项
+ */
+export interface ImageProcessOptions {
+  /** 最大宽度（0 表示不缩小） */
+  maxWidth: number
+  /** 保存格式 */
+  format: ImageFormat
+}
+
+/** MIME 类型对应的扩展名 */
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+}
+
+/** 不做缩小和格式转换的图片（动图、矢量图） */
+const UNPROCESSED_TYPES = new Set(['image/gif', 'image/svg+xml'])
+
+/** 有损格式的压缩质量 */
+const LOSSY_QUALITY = 0.9
+
+/** 文件名中不允许的字符 */
+const INVALID_NAME_CHARS = /[<>:"/\\|?*\u0000-\u001f]/g
+
+/**
+ * 从剪贴板或拖放的数据中取出图片文件
+ */
+export function getImageFiles(data: DataTransfer | null): File[] {
+  if (!data) return []
+  return Array.from(data.files).filter((file) => file.type.startsWith('image/'))
+}
+
+/**
+ * 去掉文件名中不允许的字符
+ */
+function sanitizeName(name: string): string {
+  return name
+    .replace(INVALID_NAME_CHARS, '-')
+    .trim()
+    .replace(/^\.+|\.+$/g, '')
+}
+
+/**
+ * 按格式生成名称（占位符替换后去掉不允许的字符）
+ * @param pattern 名称格式
+ * @param values 占位符的值（不含花括号）
+ */
+export function formatAssetName(pattern: string, values: Record<string, string>): string {
+  const name = pattern.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+  return sanitizeName(name)
+}
+
+/**
+ * 生成占位符的值
+ * @param noteName 笔记文件名（不含扩展名）
+ * @param file 图片文件
+ * @param now 当前时间
+ */
+export function getAssetNameValues(
+  noteName: string,
+  file: File,
+  now: Date = new Date(),
+): Record<string, string> {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return {
+    note: noteName,
+    name: file.name.replace(/\.[^.]*$/, '') || 'image',
+    date: `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+    timestamp: String(now.getTime()),
+  }
+}
+
+/**
+ * 拆分资源文件夹设置为路径片段（按占位符生成各段，忽略 "." 和空段）
+ * @param folder 文件夹设置（相对于笔记所在文件夹）
+ * @param values 占位符的值
+ */
+export function getAssetFolderSegments(folder: string, values: Record<string, string>): string[] {
+  return folder
+    .split(/[/\\]+/)
+    .map((segment) => (segment === '..' ? segment : formatAssetName(segment, values)))
+    .filter((segment) => segment && segment !== '.')
+}
+
+/**
+ * 生成 Markdown 图片链接（路径含空格或括号时用尖括号包裹）
+ * @param segments 相对于笔记的路径片段
+ */
+export function createImageMarkdown(segments: string[]): string {
+  const relativePath = segments[0] === '..' ? segments.join('/') : `./${segments.join('/')}`
+  const target = /[\s()<>]/.test(relativePath) ? `<${relativePath}>` : relativePath
+  return `![](${target})`
+}
+
+/**
+ * 原格式的扩展名
+ */
+function getOriginalExtension(file: File): string {
+  return MIME_EXTENSIONS[file.type] ?? file.name.match(/\.(\w+)$/)?.[1]?.toLowerCase() ?? 'png'
+}
+
+/**
+ * 读取文件内容
+ */
+async function readFileData(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.arrayBuffer())
+}
+
+/**
+ * 按设置缩小图片或转换格式
+ * 无需处理或浏览器无法解码时保持原样
+ */
+export async function processImage(
+  file: File,
+  options: ImageProcessOptions,
+): Promise<ProcessedImage> {
+  const original = async (): Promise<ProcessedImage> => ({
+    data: await readFileData(file),
+    extension: getOriginalExtension(file),
+  })
+
+  if (UNPROCESSED_TYPES.has(file.type)) return original()
+
+  const targetType = options.format === 'original' ? file.type : `image/${options.format}`
+  const needsConversion = targetType !== file.type
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch (error) {
+    console.warn('[ImageAsset] 无法解码图片，按原样保存:', error)
+    return original()
+  }
+
+  try {
+    const scale =
+      options.maxWidth > 0 && bitmap.width > options.maxWidth ? options.maxWidth / bitmap.width : 1
+    if (scale === 1 && !needsConversion) return original()
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    const context = canvas.getContext('2d')
+    if (!context) return original()
+
+    // JPEG 不支持透明，透明区域填充白色（否则为黑色）
+    if (targetType === 'image/jpeg') {
+      context.fillStyle = '#ffffff'
+      context.fillRect(0, 0, canvas.width, canvas.height)
+    }
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, targetType, LOSSY_QUALITY),
+    )
+    // 不支持编码为目标格式时，toBlob 会退回 PNG
+    if (!blob) return original()
+    return {
+      data: new Uint8Array(await blob.arrayBuffer()),
+      extension: MIME_EXTENSIONS[blob.type] ?? 'png',
+    }
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,126 @@
+// src/common/utils/path.ts
+/**
+ * 🧭 路径工具函数
+ *
+ * 渲染进程无法使用 Node.js 的 path 模块，这里提供最小化的实现。
+ * 同时兼容 Windows (`\`) 与 POSIX (`/`) 分隔符，拼接时沿用原路径的分隔符。
+ */
+
+/**
+ * 推断路径使用的分隔符
+ */
+export function getPathSeparator(path: string): '/' | '\\' {
+  return path.includes('\\') ? '\\' : '/'
+}
+
+/**
+ * 获取路径所在目录
+ */
+export function getDirectory(path: string): string {
+  const lastSlashIndex = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'))
+  if (lastSlashIndex === -1) return ''
+  // 保留根目录的分隔符，如 "/" 或 "C:\"
+  if (lastSlashIndex === 0 || path[lastSlashIndex - 1] === ':') {
+    return path.substring(0, lastSlashIndex + 1)
+  }
+  return path.substring(0, lastSlashIndex)
+}
+
+/**
+ * 获取路径的最后一段（文件名或目录名）
+ */
+export function getBaseName(path: string): string {
+  const trimmed = path.replace(/[/\\]+$/, '')
+  return trimmed.split(/[/\\]/).pop() ?? trimmed
+}
+
+/**
+ * 拼接路径
+ * @param base 基础目录
+ * @param segments 追加的路径片段
+ */
+export function joinPath(base: string, ...segments: string[]): string {
+  const separator = getPathSeparator(base)
+  let result = base
+  for (const segment of segments) {
+    if (!segment) continue
+    const cleaned = segment.replace(/^[/\\]+/, '')
+    result = /[/\\]$/.test(result) ? `${result}${cleaned}` : `${result}${separator}${cleaned}`
+  }
+  return result
+}
+
+/**
+ * 判断 child 是否位于 parent 目录之内（或相同）
+ */
+export function isSubPath(parent: string, child: string): boolean {
+  const normalize = (p: string) => p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase()
+  const normalizedParent = normalize(parent)
+  const normalizedChild = normalize(child)
+  return normalizedChild === normalizedParent || normalizedChild.startsWith(`${normalizedParent}/`)
+}
+
+/**
+ * 是否为 Markdown 文件
+ */
+export function isMarkdownFile(path: string): boolean {
+  return /\.(md|markdown)$/i.test(path)
+}
+
+/**
+ * 解析相对路径（处理 . 和 ..，不会越过根目录）
+ * @param base 基础目录
+ * @param relative 相对路径
+ */
+export function resolvePath(base: string, relative: string): string {
+  const separator = getPathSeparator(base)
+  const segments = base.replace(/[/\\]+$/, '').split(/[/\\]/)
+  for (const segment of relative.split(/[/\\]/)) {
+    if (!segment || segment === '.') continue
+    if (segment === '..') {
+      if (segments.length > 1) segments.pop()
+      continue
+    }
+    segments.push(segment)
+  }
+  return segments.join(separator)
+}
+
+/**
+ * 计算从目录到目标路径的相对路径（使用 / 分隔，可直接用于链接）
+ * @param fromDir 起始目录
+ * @param toPath 目标路径
+ * @returns 两者不在同一根目录（如不同盘符）时为 null
+ */
+export function getRelativePath(fromDir: string, toPath: string): string | null {
+  // Windows 路径不区分大小写
+  const ignoreCase = getPathSeparator(fromDir) === '\\'
+  const isSame = (a: string, b: string) =>
+    ignoreCase ? a.toLowerCase() === b.toLowerCase() : a === b
+  const split = (path: string) => path.replace(/[/\\]+$/, '').split(/[/\\]+/)
+
+  const from = split(fromDir)
+  const to = split(toPath)
+  if (!isSame(from[0] ?? '', to[0] ?? '')) return null
+
+  let common = 0
+  while (common < from.length && common < to.length && isSame(from[common]!, to[common]!)) {
+    common++
+  }
+  return [...Array<string>(from.length - common).fill('..'), ...to.slice(common)].join('/')
+}
+
+/**
+ * 将 file: URL 转换为本地路径（盘符路径与网络路径使用 Windows 分隔符）
+ */
+export function fileUrlToPath(url: string): string {
+  const path = url.replace(/^file:\/\//i, '')
+  if (/^\/[a-z]:/i.test(path)) {
+    return path.slice(1).replace(/\//g, '\\')
+  }
+  // file://server/share/... 为网络路径
+  if (!path.startsWith('/')) {
+    return `\\\\${path.replace(/\//g, '\\')}`
+  }
+  return path
+}
@@ -3,8 +3,10 @@
  * 🧩 组件统一导出
  */
 
+export { default as AppSidebar } from './AppSidebar.vue'
+export { default as BacklinksPanel } from './BacklinksPanel.vue'
 export { default as MemoEditor } from './MemoEditor.vue'
 export { default as MemoPreview } from './MemoPreview.vue'
+export { default as OutlinePanel } from './OutlinePanel.vue'
 export { default as StatusBar } from './StatusBar.vue'
 export { default as TitleBar } from './TitleBar.vue'
-
@@ -0,0 +1,68 @@
+// src/headless.ts
+/**
+ * 📤 无界面导出模式（--export）的渲染进程入口
+ *
+ * 不挂载界面，只负责把主进程发来的 Markdown 渲染为 HTML 或纯文本，
+ * 与预览面板共用渲染管线和主题样式。
+ */
+
+import { AVAILABLE_THEMES } from '@/common/editor/themes'
+import { buildHtmlDocument, renderPlainText } from '@/common/markdown/exportDocument'
+import { pickMarkdownExtensions } from '@/common/markdown/extensions'
+import { parseFrontMatter } from '@/common/markdown/frontMatter'
+import { setDiagramTheme } from '@/common/markdown/diagram'
+import { prepareMarkdown } from '@/common/markdown/renderer'
+import type { ExportRenderRequest } from '@/common/types'
+import { getBaseName } from '@/common/utils/path'
+import { useConfigService } from '@/platforms/adapter'
+
+/**
+ * 渲染一个导出请求
+ */
+async function render(request: ExportRenderRequest): Promise<string> {
+  const settings = await useConfigService().getSettings()
+  const themeId = request.themeId ?? settings.editorTheme
+  if (!AVAILABLE_THEMES.some((theme) => theme.id === themeId)) {
+    const themeIds = AVAILABLE_THEMES.map((theme) => theme.id).join(', ')
+    throw new Error(`未知主题: ${themeId}（可用: ${themeIds}）`)
+  }
+
+  if (request.format === 'txt') {
+    return renderPlainText(request.content, request.filePath, pickMarkdownExtensions(settings))
+  }
+
+  // 只渲染一次，代码块的语言解析器和图表需要提前就绪
+  setDiagramTheme(themeId)
+  await prepareMarkdown(request.content)
+
+  const style = {
+    themeId,
+    fontSize: settings.fontSize,
+    fontFamily: settings.previewFontFamily,
+    showFrontMatter: settings.showFrontMatter,
+    extensions: pickMarkdownExtensions(settings),
+  }
+  const title =
+    parseFrontMatter(request.content)?.title ??
+    getBaseName(request.filePath).replace(/\.(md|markdown)$/i, '')
+  return buildHtmlDocument(request.content, request.filePath, style, title, request.outputPath)
+}
+
+/**
+ * 开始处理主进程的渲染请求
+ */
+export async function startHeadlessExport(): Promise<void> {
+  const exporter = window.electron?.exporter
+  if (!exporter) return
+
+  exporter.onRenderRequest(async (request) => {
+    try {
+      await exporter.sendResult(request.id, { success: true, data: await render(request) })
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : '未知错误'
+      await exporter.sendResult(request.id, { success: false, error: errMsg })
+    }
+  })
+
+  await exporter.ready()
+}
@@ -11,12 +11,17 @@ import App from './App.vue'
 // 导入全局样式
 import '@/assets/styles/index.css'
 
-const app = createApp(App)
+if (new URLSearchParams(location.search).has('headless')) {
+  // 无界面导出模式（--export）：不挂载界面
+  import('./headless').then(({ startHeadlessExport }) => startHeadlessExport())
+} else {
+  const app = createApp(App)
 
-// 注册 Pinia 状态管理
-app.use(createPinia())
+  // 注册 Pinia 状态管理
+  app.use(createPinia())
 
-// 挂载应用
-app.mount('#app')
+  // 挂载应用
+  app.mount('#app')
 
-console.log('[0xNote] 应用启动中...')
+  console.log('[0xNote] 应用启动中...')
+}
@@ -11,8 +11,14 @@
  * 2. 返回对应平台的接口实现实例
  */
 
-import type { IConfigService, IFileSystem, ISystemMenu } from '@/common/types'
-import { WindowsConfigService, WindowsFileSystem, WindowsSystemMenu } from './windows'
+import type { IConfigService, IFileSystem, IHistoryService, IRecoveryService, ISystemMenu } from '@/common/types'
+import {
+    WindowsConfigService,
+    WindowsFileSystem,
+    WindowsHistoryService,
+    WindowsRecoveryService,
+    WindowsSystemMenu,
+} from './windows'
 
 /**
  * 支持的平台枚举
@@ -26,6 +32,8 @@ export interface PlatformServices {
     fileSystem: IFileSystem
     systemMenu: ISystemMenu
     configService: IConfigService
+    recoveryService: IRecoveryService
+    historyService: IHistoryService
 }
 
 // 单例实例缓存
@@ -70,6 +78,8 @@ export function usePlatformServices(): PlatformServices {
                 fileSystem: new WindowsFileSystem(),
                 systemMenu: new WindowsSystemMenu(),
                 configService: new WindowsConfigService(),
+                recoveryService: new WindowsRecoveryService(),
+                historyService: new WindowsHistoryService(),
             }
             break
 
@@ -79,6 +89,8 @@ export function usePlatformServices(): PlatformServices {
                 fileSystem: new WindowsFileSystem(), // 暂用 Mock
                 systemMenu: new WindowsSystemMenu(),
                 configService: new WindowsConfigService(),
+                recoveryService: new WindowsRecoveryService(),
+                historyService: new WindowsHistoryService(),
             }
             break
 
@@ -109,3 +121,17 @@ export function useSystemMenu(): ISystemMenu {
 export function useConfigService(): IConfigService {
     return usePlatformServices().configService
 }
+
+/**
+ * 便捷访问：获取崩溃恢复服务
+ */
+export function useRecoveryService(): IRecoveryService {
+    return usePlatformServices().recoveryService
+}
+
+/**
+ * 便捷访问：获取版本历史服务
+ */
+export function useHistoryService(): IHistoryService {
+    return usePlatformServices().historyService
+}
@@ -9,14 +9,26 @@
  * 内部使用 @ohos.file.fs 模块实现相同接口即可。
  */
 
-import type { FileMetadata, FileOperationResult, IFileSystem } from '@/common/types'
+import {
+    DEFAULT_TEXT_FORMAT,
+    type DirectoryEntry,
+    type FileOperationResult,
+    type FileStats,
+    type FileWatchEvent,
+    type IFileSystem,
+    type TextEncoding,
+    type TextFileContent,
+    type WriteFileOptions,
+} from '@/common/types'
+import { joinPath } from '@/common/utils/path'
 
 /**
  * Windows 文件系统实现类
  */
 export class WindowsFileSystem implements IFileSystem {
     private readonly LOG_PREFIX = '[WindowsFileSystem]'
-    private fileChangeListeners = new Map<string, (content: string) => void>()
+    private fileChangeListeners = new Map<string, (event: FileWatchEvent) => void>()
+    private directoryChangeListeners = new Map<string, (changedPaths: string[]) => void>()
 
     constructor() {
         // 监听主进程的文件变化事件
@@ -25,7 +37,21 @@ export class WindowsFileSystem implements IFileSystem {
                 const callback = this.fileChangeListeners.get(path)
                 if (callback) {
                     console.log(`${this.LOG_PREFIX} 外部文件变化: ${path}`)
-                    callback(content)
+                    callback({ type: 'changed', content })
+                }
+            })
+            window.electron.fs.onFileRemoved((path, newPath) => {
+                const callback = this.fileChangeListeners.get(path)
+                if (callback) {
+                    console.log(`${this.LOG_PREFIX} 外部文件${newPath ? '改名' : '删除'}: ${path}`)
+                    callback(newPath ? { type: 'renamed', newPath } : { type: 'removed' })
+                }
+            })
+            window.electron.fs.onDirectoryChanged((dirPath, changedPaths) => {
+                const callback = this.directoryChangeListeners.get(dirPath)
+                if (callback) {
+                    console.log(`${this.LOG_PREFIX} 目录变化: ${dirPath} (${changedPaths.length} 项)`)
+                    callback(changedPaths)
                 }
             })
         }
@@ -42,26 +68,36 @@ export class WindowsFileSystem implements IFileSystem {
         return !!this.electronAPI
     }
 
-    async readFile(filePath: string): Promise<FileOperationResult<string>> {
+    async readFile(
+        filePath: string,
+        encoding?: TextEncoding,
+    ): Promise<FileOperationResult<TextFileContent>> {
         console.log(`${this.LOG_PREFIX} readFile: ${filePath}`)
 
         if (this.isElectronEnv) {
-            return await this.electronAPI!.fs.readFile(filePath)
+            return await this.electronAPI!.fs.readFile(filePath, encoding)
         }
 
         // Web 模式 Mock
         return {
             success: true,
-            data: `# 欢迎使用 0xNote\n\n这是一个演示内容。在 Electron 环境中将加载真实文件。\n\n## 功能特性\n\n- 🎨 专业级代码高亮\n- ⚡ 极速启动\n- 💾 智能自动保存\n\n\`\`\`javascript\nconst greeting = 'Hello, 0xNote!';\nconsole.log(greeting);\n\`\`\`\n`,
+            data: {
+                content: `# 欢迎使用 0xNote\n\n这是一个演示内容。在 Electron 环境中将加载真实文件。\n\n## 功能特性\n\n- 🎨 专业级代码高亮\n- ⚡ 极速启动\n- 💾 智能自动保存\n\n\`\`\`javascript\nconst greeting = 'Hello, 0xNote!';\nconsole.log(greeting);\n\`\`\`\n`,
+                format: { ...DEFAULT_TEXT_FORMAT },
+            },
         }
     }
 
-    async writeFile(filePath: string, content: string): Promise<FileOperationResult> {
+    async writeFile(
+        filePath: string,
+        content: string,
+        options?: WriteFileOptions,
+    ): Promise<FileOperationResult> {
         console.log(`${this.LOG_PREFIX} writeFile: ${filePath}`)
         console.log(`${this.LOG_PREFIX} 内容长度: ${content.length} 字符`)
 
         if (this.isElectronEnv) {
-            return await this.electronAPI!.fs.writeFile(filePath, content)
+            return await this.electronAPI!.fs.writeFile(filePath, content, options)
         }
 
         // Web 模式 Mock
@@ -69,9 +105,21 @@ export class WindowsFileSystem implements IFileSystem {
         return { success: true }
     }
 
+    async writeBinaryFile(filePath: string, data: Uint8Array): Promise<FileOperationResult> {
+        console.log(`${this.LOG_PREFIX} writeBinaryFile: ${filePath} (${data.byteLength} 字节)`)
+
+        if (this.isElectronEnv) {
+            return await this.electronAPI!.fs.writeBinaryFile(filePath, data)
+        }
+
+        // Web 模式 Mock
+        console.log(`${this.LOG_PREFIX} [Mock] 写入成功`)
+        return { success: true }
+    }
+
     async createFile(directoryPath: string, fileName?: string): Promise<FileOperationResult<string>> {
         const finalFileName = fileName ?? `untitled_${Date.now()}.md`
-        const fullPath = `${directoryPath}\\${finalFileName}`
+        const fullPath = joinPath(directoryPath, finalFileName)
         console.log(`${this.LOG_PREFIX} createFile: ${fullPath}`)
 
         if (this.isElectronEnv) {
@@ -88,7 +136,7 @@ export class WindowsFileSystem implements IFileSystem {
         }
     }
 
-    async getFileMetadata(filePath: string): Promise<FileOperationResult<FileMetadata>> {
+    async getFileMetadata(filePath: string): Promise<FileOperationResult<FileStats>> {
         console.log(`${this.LOG_PREFIX} getFileMetadata: ${filePath}`)
 
         if (this.isElectronEnv) {
@@ -108,6 +156,19 @@ export class WindowsFileSystem implements IFileSystem {
         }
     }
 
+    async makeWritable(filePath: string): Promise<FileOperationResult> {
+        console.log(`${this.LOG_PREFIX} makeWritable: ${filePath}`)
+
+        if (this.isElectronEnv) {
+            return await this.electronAPI!.fs.makeWritable(filePath)
+        }
+
+        return {
+            success: false,
+            error: 'Web 模式下无法修改文件属性',
+        }
+    }
+
     async exists(filePath: string): Promise<boolean> {
         console.log(`${this.LOG_PREFIX} exists: ${filePath}`)
 
@@ -144,11 +205,15 @@ export class WindowsFileSystem implements IFileSystem {
         }
     }
 
-    async watchFile(filePath: string, callback: (content: string) => void): Promise<void> {
+    async watchFile(
+        filePath: string,
+        callback: (event: FileWatchEvent) => void,
+        encoding?: TextEncoding,
+    ): Promise<void> {
         console.log(`${this.LOG_PREFIX} watchFile: ${filePath}`)
         if (this.isElectronEnv) {
             this.fileChangeListeners.set(filePath, callback)
-            await this.electronAPI!.fs.watchFile(filePath)
+            await this.electronAPI!.fs.watchFile(filePath, encoding)
         }
     }
 
@@ -159,4 +224,54 @@ export class WindowsFileSystem implements IFileSystem {
             await this.electronAPI!.fs.unwatchFile(filePath)
         }
     }
+
+    async listDirectory(dirPath: string): Promise<FileOperationResult<DirectoryEntry[]>> {
+        console.log(`${this.LOG_PREFIX} listDirectory: ${dirPath}`)
+
+        if (this.isElectronEnv) {
+            return await this.electronAPI!.fs.readDirectory(dirPath)
+        }
+
+        // Web 模式 Mock
+        return { success: true, data: [] }
+    }
+
+    async createDirectory(dirPath: string): Promise<FileOperationResult> {
+        console.log(`${this.LOG_PREFIX} createDirectory: ${dirPath}`)
+
+        if (this.isElectronEnv) {
+            return await this.electronAPI!.fs.createDirectory(dirPath)
+        }
+
+        return { success: true }
+    }
+
+    async showOpenFolderDialog(): Promise<FileOperationResult<string>> {
+        console.log(`${this.LOG_PREFIX} showOpenFolderDialog 调用`)
+
+        if (this.isElectronEnv) {
+            return await this.electronAPI!.dialog.openFolder()
+        }
+
+        return {
+            success: false,
+            error: 'Web 模式下无法打开文件夹选择对话框',
+        }
+    }
+
+    async watchDirectory(dirPath: string, callback: (changedPaths: string[]) => void): Promise<void> {
+        console.log(`${this.LOG_PREFIX} watchDirectory: ${dirPath}`)
+        if (this.isElectronEnv) {
+            this.directoryChangeListeners.set(dirPath, callback)
+            await this.electronAPI!.fs.watchDirectory(dirPath)
+        }
+    }
+
+    async unwatchDirectory(dirPath: string): Promise<void> {
+        console.log(`${this.LOG_PREFIX} unwatchDirectory: ${dirPath}`)
+        if (this.isElectronEnv) {
+            this.directoryChangeListeners.delete(dirPath)
+            await this.electronAPI!.fs.unwatchDirectory(dirPath)
+        }
+    }
 }
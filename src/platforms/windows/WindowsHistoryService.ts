@@ -0,0 +1,58 @@
+// src/platforms/windows/WindowsHistoryService.ts
+/**
+ * 🕘 Windows 平台版本历史实现
+ *
+ * 通过 Electron IPC 将历史版本写入主进程的 userData/history/ 目录。
+ * Web 模式下不做持久化。
+ *
+ * 【鸿蒙迁移指南】
+ * 迁移时创建 HarmonyHistoryService implements IHistoryService，
+ * 将版本内容写入应用沙箱的 filesDir 即可。
+ */
+
+import type { HistoryEntry, HistoryRetention, IHistoryService } from '@/common/types'
+
+/**
+ * Windows 版本历史实现类
+ */
+export class WindowsHistoryService implements IHistoryService {
+    private readonly LOG_PREFIX = '[WindowsHistoryService]'
+
+    private get electronAPI() {
+        return window.electron
+    }
+
+    async recordSnapshot(
+        filePath: string,
+        content: string,
+        retention: HistoryRetention,
+    ): Promise<void> {
+        if (!this.electronAPI) return
+        const result = await this.electronAPI.history.record(filePath, content, retention)
+        if (!result.success) {
+            console.error(`${this.LOG_PREFIX} 记录历史版本失败: ${result.error}`)
+        } else if (result.data) {
+            console.log(`${this.LOG_PREFIX} 已记录历史版本: ${filePath}`)
+        }
+    }
+
+    async listSnapshots(filePath: string): Promise<HistoryEntry[]> {
+        if (!this.electronAPI) return []
+        const result = await this.electronAPI.history.list(filePath)
+        if (!result.success) {
+            console.error(`${this.LOG_PREFIX} 读取历史列表失败: ${result.error}`)
+            return []
+        }
+        return result.data ?? []
+    }
+
+    async readSnapshot(filePath: string, entryId: string): Promise<string | null> {
+        if (!this.electronAPI) return null
+        const result = await this.electronAPI.history.read(filePath, entryId)
+        if (!result.success) {
+            console.error(`${this.LOG_PREFIX} 读取历史版本失败: ${result.error}`)
+            return null
+        }
+        return result.data ?? null
+    }
+}
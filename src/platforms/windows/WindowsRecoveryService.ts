@@ -0,0 +1,61 @@
+// src/platforms/windows/WindowsRecoveryService.ts
+/**
+ * 🛟 Windows 平台崩溃恢复实现
+ *
+ * 通过 Electron IPC 将快照写入主进程的 userData/recovery/<会话 ID>/ 目录。
+ * Web 模式下不做持久化。
+ *
+ * 【鸿蒙迁移指南】
+ * 迁移时创建 HarmonyRecoveryService implements IRecoveryService，
+ * 将快照写入应用沙箱的 filesDir 即可。
+ */
+
+import type { IRecoveryService, RecoverySnapshot } from '@/common/types'
+
+/**
+ * Windows 崩溃恢复实现类
+ */
+export class WindowsRecoveryService implements IRecoveryService {
+    private readonly LOG_PREFIX = '[WindowsRecoveryService]'
+
+    /** 本次会话 ID（每次启动渲染进程都不同） */
+    private readonly sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+    private get electronAPI() {
+        return window.electron
+    }
+
+    async saveSnapshot(snapshot: RecoverySnapshot): Promise<void> {
+        if (!this.electronAPI) return
+        const result = await this.electronAPI.recovery.save(this.sessionId, snapshot)
+        if (!result.success) {
+            console.error(`${this.LOG_PREFIX} 保存快照失败: ${result.error}`)
+        }
+    }
+
+    async removeSnapshot(documentId: string): Promise<void> {
+        if (!this.electronAPI) return
+        await this.electronAPI.recovery.remove(this.sessionId, documentId)
+    }
+
+    async clearSnapshots(): Promise<void> {
+        if (!this.electronAPI) return
+        await this.electronAPI.recovery.clear(this.sessionId)
+    }
+
+    async listRecoverableSnapshots(): Promise<RecoverySnapshot[]> {
+        if (!this.electronAPI) return []
+        const result = await this.electronAPI.recovery.list(this.sessionId)
+        if (!result.success) {
+            console.error(`${this.LOG_PREFIX} 读取快照失败: ${result.error}`)
+            return []
+        }
+        console.log(`${this.LOG_PREFIX} 发现 ${result.data?.length ?? 0} 个可恢复的快照`)
+        return result.data ?? []
+    }
+
+    async discardRecoverableSnapshots(): Promise<void> {
+        if (!this.electronAPI) return
+        await this.electronAPI.recovery.discard(this.sessionId)
+    }
+}
@@ -8,5 +8,7 @@
 
 export { WindowsConfigService } from './WindowsConfigService'
 export { WindowsFileSystem } from './WindowsFileSystem'
+export { WindowsHistoryService } from './WindowsHistoryService'
+export { WindowsRecoveryService } from './WindowsRecoveryService'
 export { WindowsSystemMenu } from './WindowsSystemMenu'
 
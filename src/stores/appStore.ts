@@ -5,6 +5,7 @@
  * 管理应用级别的状态，如主题、启动参数、视图模式等。
  */
 
+import type { LaunchOptions } from '@/common/types'
 import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 
@@ -33,12 +34,18 @@ export const useAppStore = defineStore('app', () => {
   /** 应用是否已初始化 */
   const isInitialized = ref(false)
 
-  /** 启动参数（如右键打开时传入的文件路径） */
-  const launchArgs = ref<string[]>([])
+  /** 启动选项（如右键打开时传入的文件路径） */
+  const launchOptions = ref<LaunchOptions | null>(null)
 
   /** 侧边栏是否显示 */
   const isSidebarVisible = ref(false)
 
+  /** 大纲面板是否显示 */
+  const isOutlineVisible = ref(false)
+
+  /** 反向链接面板是否显示 */
+  const isBacklinksVisible = ref(false)
+
   /** 是否显示预览面板（兼容旧代码） */
   const isPreviewVisible = computed(() => viewMode.value !== 'edit')
 
@@ -51,14 +58,17 @@ export const useAppStore = defineStore('app', () => {
   /** 是否显示快捷键设置模态框 */
   const isShortcutsOpen = ref(false)
 
+  /** 是否显示版本历史模态框 */
+  const isHistoryOpen = ref(false)
+
   // ========== 操作 ==========
 
   /**
    * 初始化应用
-   * @param args 启动参数
+   * @param options 启动选项
    */
-  function initialize(args: string[] = []): void {
-    launchArgs.value = args
+  function initialize(options: LaunchOptions | null = null): void {
+    launchOptions.value = options
     isInitialized.value = true
 
     // 从 localStorage 恢复视图模式
@@ -67,7 +77,16 @@ export const useAppStore = defineStore('app', () => {
       viewMode.value = savedViewMode
     }
 
-    console.log('[AppStore] 应用初始化完成，启动参数:', args)
+    // 从 localStorage 恢复侧边栏显示状态
+    isSidebarVisible.value = localStorage.getItem('0xNote:sidebarVisible') === 'true'
+
+    // 从 localStorage 恢复大纲面板显示状态
+    isOutlineVisible.value = localStorage.getItem('0xNote:outlineVisible') === 'true'
+
+    // 从 localStorage 恢复反向链接面板显示状态
+    isBacklinksVisible.value = localStorage.getItem('0xNote:backlinksVisible') === 'true'
+
+    console.log('[AppStore] 应用初始化完成，启动选项:', options)
   }
 
   /**
@@ -104,7 +123,45 @@ export const useAppStore = defineStore('app', () => {
    * 切换侧边栏
    */
   function toggleSidebar(): void {
-    isSidebarVisible.value = !isSidebarVisible.value
+    setSidebarVisible(!isSidebarVisible.value)
+  }
+
+  /**
+   * 设置侧边栏显示状态
+   */
+  function setSidebarVisible(visible: boolean): void {
+    isSidebarVisible.value = visible
+    localStorage.setItem('0xNote:sidebarVisible', String(visible))
+  }
+
+  /**
+   * 切换大纲面板
+   */
+  function toggleOutline(): void {
+    setOutlineVisible(!isOutlineVisible.value)
+  }
+
+  /**
+   * 设置大纲面板显示状态
+   */
+  function setOutlineVisible(visible: boolean): void {
+    isOutlineVisible.value = visible
+    localStorage.setItem('0xNote:outlineVisible', String(visible))
+  }
+
+  /**
+   * 切换反向链接面板
+   */
+  function toggleBacklinks(): void {
+    setBacklinksVisible(!isBacklinksVisible.value)
+  }
+
+  /**
+   * 设置反向链接面板显示状态
+   */
+  function setBacklinksVisible(visible: boolean): void {
+    isBacklinksVisible.value = visible
+    localStorage.setItem('0xNote:backlinksVisible', String(visible))
   }
 
   /**
@@ -171,13 +228,17 @@ export const useAppStore = defineStore('app', () => {
   }
 
   /**
-   * 获取传入的文件路径（从启动参数中提取）
+   * 打开版本历史
+   */
+  function openHistory(): void {
+    isHistoryOpen.value = true
+  }
+
+  /**
+   * 关闭版本历史
    */
-  function getLaunchFilePath(): string | null {
-    // 通常第一个参数是可执行文件路径，第二个开始是用户参数
-    // 如: ["0xNote.exe", "C:\\Users\\xxx\\note.md"]
-    const filePath = launchArgs.value.find((arg) => arg.endsWith('.md'))
-    return filePath ?? null
+  function closeHistory(): void {
+    isHistoryOpen.value = false
   }
 
   return {
@@ -185,12 +246,15 @@ export const useAppStore = defineStore('app', () => {
     theme,
     viewMode,
     isInitialized,
-    launchArgs,
+    launchOptions,
     isSidebarVisible,
+    isOutlineVisible,
+    isBacklinksVisible,
     isPreviewVisible,
     isEditorVisible,
     isSettingsOpen,
     isShortcutsOpen,
+    isHistoryOpen,
 
     // Actions
     initialize,
@@ -198,6 +262,11 @@ export const useAppStore = defineStore('app', () => {
     setTheme,
     applyTheme,
     toggleSidebar,
+    setSidebarVisible,
+    toggleOutline,
+    setOutlineVisible,
+    toggleBacklinks,
+    setBacklinksVisible,
     togglePreview,
     setViewMode,
     cycleViewMode,
@@ -205,6 +274,7 @@ export const useAppStore = defineStore('app', () => {
     closeSettings,
     openShortcuts,
     closeShortcuts,
-    getLaunchFilePath,
+    openHistory,
+    closeHistory,
   }
 })
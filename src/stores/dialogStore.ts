@@ -0,0 +1,73 @@
+// src/stores/dialogStore.ts
+/**
+ * 💬 对话框状态管理 Store
+ *
+ * 需要等待用户选择的对话框以 Promise 形式提供，
+ * 调用方 await 结果即可，组件只负责展示和回传选择。
+ */
+
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { OpenDocument } from './fileStore'
+
+/**
+ * 未保存更改对话框的选择
+ */
+export type UnsavedChangesChoice = 'save' | 'discard' | 'cancel'
+
+/**
+ * 等待回应的未保存更改询问
+ */
+interface UnsavedChangesPrompt {
+  /** 有未保存更改的文档 */
+  documents: OpenDocument[]
+  /** 回传用户的选择 */
+  resolve: (choice: UnsavedChangesChoice) => void
+}
+
+export const useDialogStore = defineStore('dialog', () => {
+  // ========== 状态 ==========
+
+  /** 当前的未保存更改询问 */
+  const unsavedChangesPrompt = ref<UnsavedChangesPrompt | null>(null)
+
+  // ========== 操作 ==========
+
+  /**
+   * 询问用户如何处理未保存的更改
+   * @param documents 有未保存更改的文档
+   */
+  function askUnsavedChanges(documents: OpenDocument[]): Promise<UnsavedChangesChoice> {
+    // 同时只保留一个询问，之前的视为取消
+    unsavedChangesPrompt.value?.resolve('cancel')
+
+    return new Promise((resolve) => {
+      const prompt: UnsavedChangesPrompt = {
+        documents,
+        resolve: (choice) => {
+          if (unsavedChangesPrompt.value === prompt) {
+            unsavedChangesPrompt.value = null
+          }
+          resolve(choice)
+        },
+      }
+      unsavedChangesPrompt.value = prompt
+    })
+  }
+
+  /**
+   * 回传用户的选择（由对话框组件调用）
+   */
+  function answerUnsavedChanges(choice: UnsavedChangesChoice): void {
+    unsavedChangesPrompt.value?.resolve(choice)
+  }
+
+  return {
+    // State
+    unsavedChangesPrompt,
+
+    // Actions
+    askUnsavedChanges,
+    answerUnsavedChanges,
+  }
+})
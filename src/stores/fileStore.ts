@@ -6,16 +6,37 @@
  * 此 Store 依赖于 IFileSystem 接口，而非具体实现类。
  * 这确保了业务逻辑与平台实现完全解耦。
  *
+ * 【多文档模型】
+ * 每个打开的标签页对应一个 OpenDocument，拥有独立的内容、保存状态、
+ * 元信息、文件监听和防抖自动保存。`content`、`currentFilePath` 等
+ * 旧接口始终指向当前激活的文档，组件无需关心标签页细节。
+ *
  * 【鸿蒙迁移指南】
  * 迁移时此文件无需任何修改！
  * 只需确保平台适配器返回正确的 HarmonyFileSystem 实例即可。
  */
 
-import type { FileMetadata } from '@/common/types'
-import { useFileSystem } from '@/platforms/adapter'
-import { debounce } from 'lodash-es'
+import { parseFrontMatter } from '@/common/markdown/frontMatter'
+import {
+  DEFAULT_TEXT_FORMAT,
+  type FileMetadata,
+  type FileWatchEvent,
+  type TextEncoding,
+  type TextFormat,
+} from '@/common/types'
+import {
+  createImageMarkdown,
+  formatAssetName,
+  getAssetFolderSegments,
+  getAssetNameValues,
+  processImage,
+} from '@/common/utils/imageAsset'
+import { getBaseName, getDirectory, joinPath } from '@/common/utils/path'
+import { useFileSystem, useHistoryService } from '@/platforms/adapter'
+import { debounce, type DebouncedFunc } from 'lodash-es'
 import { defineStore } from 'pinia'
 import { computed, ref, watch } from 'vue'
+import { useDialogStore } from './dialogStore'
 import { useSettingStore } from './settingStore'
 
 /**
@@ -23,47 +44,195 @@ import { useSettingStore } from './settingStore'
  */
 export type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'error'
 
+/**
+ * 打开的文档（一个标签页）
+ */
+export interface OpenDocument {
+  /** 文档唯一标识 */
+  id: string
+  /** 文件路径（新建未保存时为 null） */
+  filePath: string | null
+  /** 未命名文档的序号（用于区分多个未命名标签） */
+  untitledIndex: number
+  /** 编辑器内容 */
+  content: string
+  /** 原始内容（用于判断是否修改） */
+  originalContent: string
+  /** 文件元信息 */
+  fileMetadata: FileMetadata | null
+  /** 保存状态 */
+  saveStatus: SaveStatus
+  /** 最后保存时间 */
+  lastSavedAt: number | null
+  /** 错误信息 */
+  errorMessage: string | null
+  /** 外部修改后的磁盘内容（与未保存的编辑冲突、等待用户处理时） */
+  externalContent: string | null
+  /** 文件已在磁盘上被删除 */
+  missingOnDisk: boolean
+  /** 用户手动锁定（只读查看） */
+  isLocked: boolean
+  /** 首次保存时对话框的默认目录（从右键菜单新建时） */
+  saveDirectory: string | null
+}
+
+/** 未命名文档的显示名称 */
+const UNTITLED_NAME = '未命名'
+
+/** 持久化已锁定文件列表的键名 */
+const LOCKED_FILES_KEY = '0xNote:lockedFiles'
+
+/** 自动保存时记录版本历史的最小间隔（期间的多次自动保存只保留第一个版本） */
+const AUTO_SAVE_HISTORY_INTERVAL = 10 * 60 * 1000
+
+/**
+ * 获取文档显示名称
+ */
+export function getDocumentName(doc: Pick<OpenDocument, 'filePath' | 'untitledIndex'>): string {
+  if (!doc.filePath) {
+    return doc.untitledIndex > 1 ? `${UNTITLED_NAME}-${doc.untitledIndex}` : UNTITLED_NAME
+  }
+  return doc.filePath.split(/[/\\]/).pop() ?? UNTITLED_NAME
+}
+
+/**
+ * 获取文档标题（Front Matter 的 title 字段，没有时使用文件名）
+ */
+export function getDocumentTitle(
+  doc: Pick<OpenDocument, 'filePath' | 'untitledIndex' | 'content'>,
+): string {
+  return parseFrontMatter(doc.content)?.title ?? getDocumentName(doc)
+}
+
+/**
+ * 文档是否有未保存的更改
+ */
+export function isDocumentDirty(doc: OpenDocument): boolean {
+  return doc.content !== doc.originalContent || doc.missingOnDisk
+}
+
+/**
+ * 文档是否只读（文件本身只读或被手动锁定）
+ */
+export function isDocumentReadOnly(doc: OpenDocument): boolean {
+  return doc.isLocked || (doc.fileMetadata?.isReadOnly ?? false)
+}
+
+/**
+ * 获取文档保存时使用的文本格式（未保存过的文档使用默认格式）
+ */
+export function getDocumentTextFormat(doc: Pick<OpenDocument, 'fileMetadata'>): TextFormat {
+  if (!doc.fileMetadata) return { ...DEFAULT_TEXT_FORMAT }
+  const { encoding, hasBom, lineEnding } = doc.fileMetadata
+  return { encoding, hasBom, lineEnding }
+}
+
 export const useFileStore = defineStore('file', () => {
   // ========== 状态 (State) ==========
 
   const settingStore = useSettingStore()
+  const dialogStore = useDialogStore()
+
+  /** 文档 ID 计数器 */
+  let documentIdSeed = 0
+
+  /** 已锁定的文件路径（跨会话保留） */
+  const lockedPaths = new Set<string>(JSON.parse(localStorage.getItem(LOCKED_FILES_KEY) ?? '[]'))
+
+  /** 各文件最近一次记录版本历史的时间 */
+  const historyRecordedAt = new Map<string, number>()
+
+  /** 所有打开的文档（按标签顺序） */
+  const documents = ref<OpenDocument[]>([])
+
+  /**
+   * 创建文档对象
+   * @param fields 覆盖的字段
+   */
+  function createDocument(fields: Partial<Omit<OpenDocument, 'id'>> = {}): OpenDocument {
+    return {
+      id: `doc-${++documentIdSeed}`,
+      filePath: null,
+      untitledIndex: 0,
+      content: '',
+      originalContent: '',
+      fileMetadata: null,
+      saveStatus: 'saved',
+      lastSavedAt: null,
+      errorMessage: null,
+      externalContent: null,
+      missingOnDisk: false,
+      isLocked: !!fields.filePath && lockedPaths.has(fields.filePath),
+      saveDirectory: null,
+      ...fields,
+    }
+  }
+
+  /**
+   * 创建一个空白的未命名文档（序号取最小的未占用值）
+   * @param preferredIndex 优先使用的序号（未被占用时）
+   */
+  function createUntitledDocument(preferredIndex?: number): OpenDocument {
+    const usedIndexes = new Set(
+      documents.value.filter((doc) => !doc.filePath).map((doc) => doc.untitledIndex),
+    )
+    if (preferredIndex && !usedIndexes.has(preferredIndex)) {
+      return createDocument({ untitledIndex: preferredIndex })
+    }
+    let untitledIndex = 1
+    while (usedIndexes.has(untitledIndex)) {
+      untitledIndex++
+    }
+    return createDocument({ untitledIndex })
+  }
+
+  documents.value.push(createUntitledDocument())
+
+  /** 当前激活的文档 ID */
+  const activeDocumentId = ref<string>(documents.value[0]!.id)
+
+  // ========== 计算属性 (Getters) ==========
+
+  /** 当前激活的文档 */
+  const activeDocument = computed<OpenDocument>(() => {
+    return documents.value.find((doc) => doc.id === activeDocumentId.value) ?? documents.value[0]!
+  })
 
   /** 当前打开的文件路径 */
-  const currentFilePath = ref<string | null>(null)
+  const currentFilePath = computed(() => activeDocument.value.filePath)
 
   /** 编辑器内容 */
-  const content = ref<string>('')
-
-  /** 原始内容（用于判断是否修改） */
-  const originalContent = ref<string>('')
+  const content = computed(() => activeDocument.value.content)
 
   /** 文件元信息 */
-  const fileMetadata = ref<FileMetadata | null>(null)
+  const fileMetadata = computed(() => activeDocument.value.fileMetadata)
 
   /** 保存状态 */
-  const saveStatus = ref<SaveStatus>('saved')
+  const saveStatus = computed(() => activeDocument.value.saveStatus)
 
   /** 最后保存时间 */
-  const lastSavedAt = ref<number | null>(null)
+  const lastSavedAt = computed(() => activeDocument.value.lastSavedAt)
 
   /** 错误信息 */
-  const errorMessage = ref<string | null>(null)
-
-  // ========== 计算属性 (Getters) ==========
+  const errorMessage = computed(() => activeDocument.value.errorMessage)
 
   /** 是否有未保存的更改 */
-  const hasUnsavedChanges = computed(() => {
-    return content.value !== originalContent.value
-  })
+  const hasUnsavedChanges = computed(() => isDocumentDirty(activeDocument.value))
 
   /** 当前文件名 */
-  const currentFileName = computed(() => {
-    if (!currentFilePath.value) return '未命名'
-    return currentFilePath.value.split(/[/\\]/).pop() ?? '未命名'
-  })
+  const currentFileName = computed(() => getDocumentName(activeDocument.value))
 
   /** 是否为新文件 */
-  const isNewFile = computed(() => currentFilePath.value === null)
+  const isNewFile = computed(() => activeDocument.value.filePath === null)
+
+  /** 是否存在任意未保存的文档 */
+  const hasAnyUnsavedChanges = computed(() => documents.value.some(isDocumentDirty))
+
+  /** 当前文档是否只读 */
+  const isReadOnly = computed(() => isDocumentReadOnly(activeDocument.value))
+
+  /** 当前文档的 Front Matter（标题、标签、日期等，没有时为 null） */
+  const frontMatter = computed(() => parseFrontMatter(activeDocument.value.content))
 
   // ========== 操作方法 (Actions) ==========
 
@@ -72,6 +241,21 @@ export const useFileStore = defineStore('file', () => {
    * 延迟获取确保平台适配器已初始化
    */
   const getFileSystem = () => useFileSystem()
+  const getHistoryService = () => useHistoryService()
+
+  /**
+   * 按 ID 查找文档
+   */
+  function findDocument(id: string): OpenDocument | undefined {
+    return documents.value.find((doc) => doc.id === id)
+  }
+
+  /**
+   * 按文件路径查找文档
+   */
+  function findDocumentByPath(filePath: string): OpenDocument | undefined {
+    return documents.value.find((doc) => doc.filePath === filePath)
+  }
 
   /**
    * 停止监听文件
@@ -85,38 +269,182 @@ export const useFileStore = defineStore('file', () => {
   }
 
   /**
-   * 开始监听文件
+   * 开始监听文件（已在监听时更新读取使用的编码）
    */
   async function startWatching(filePath: string) {
     try {
-      await getFileSystem().watchFile(filePath, (newContent) => {
-        // 防止自身保存触发的更新（内容一致时不处理）
-        if (newContent !== content.value) {
-          console.log('[FileStore] 外部文件更新，自动刷新')
-          content.value = newContent
-          originalContent.value = newContent
-          saveStatus.value = 'saved'
-        }
-      })
+      const encoding = findDocumentByPath(filePath)?.fileMetadata?.encoding
+      await getFileSystem().watchFile(
+        filePath,
+        (event) => handleExternalChange(filePath, event),
+        encoding,
+      )
     } catch (e) {
       console.error('[FileStore] 开始监听失败:', e)
     }
   }
 
+  /**
+   * 处理外部对文件的修改、删除和改名
+   * - 无未保存更改时直接载入磁盘内容
+   * - 有未保存更改时记录冲突（externalContent），交由用户处理，期间暂停自动保存
+   * - 被删除时保留编辑器内容并标记为未保存，保存即可重新创建
+   * - 被改名时跟随到新路径
+   */
+  async function handleExternalChange(filePath: string, event: FileWatchEvent): Promise<void> {
+    const doc = findDocumentByPath(filePath)
+    if (!doc) return
+
+    if (event.type === 'changed') {
+      const diskContent = event.content
+
+      // 自身保存触发的更新，或磁盘内容恢复为已知版本
+      if (diskContent === doc.originalContent) {
+        doc.externalContent = null
+        return
+      }
+
+      if (diskContent === doc.content || !isDocumentDirty(doc)) {
+        console.log('[FileStore] 外部文件更新，自动刷新:', filePath)
+        doc.content = diskContent
+        doc.originalContent = diskContent
+        doc.externalContent = null
+        doc.saveStatus = 'saved'
+        return
+      }
+
+      console.log('[FileStore] 外部文件更新与未保存的更改冲突:', filePath)
+      cancelAutoSave(doc.id)
+      doc.externalContent = diskContent
+      return
+    }
+
+    await stopWatching(filePath)
+
+    if (event.type === 'removed') {
+      console.log('[FileStore] 文件已被外部删除:', filePath)
+      cancelAutoSave(doc.id)
+      doc.missingOnDisk = true
+      doc.externalContent = null
+      doc.saveStatus = 'unsaved'
+      return
+    }
+
+    console.log('[FileStore] 文件已被外部改名:', filePath, '->', event.newPath)
+    doc.filePath = event.newPath
+    await startWatching(event.newPath)
+
+    const metaResult = await getFileSystem().getFileMetadata(event.newPath)
+    if (metaResult.success && metaResult.data) {
+      doc.fileMetadata = { ...metaResult.data, ...getDocumentTextFormat(doc) }
+    }
+  }
+
+  /**
+   * 处理外部修改冲突
+   * 编辑器内容替换为用户选定（保留、采用磁盘版本或合并后）的结果，
+   * 磁盘版本成为新的比较基准
+   * @param documentId 文档 ID
+   * @param resolvedContent 处理后的内容
+   */
+  function resolveConflict(documentId: string, resolvedContent: string): void {
+    const doc = findDocument(documentId)
+    if (!doc || doc.externalContent === null) return
+
+    doc.originalContent = doc.externalContent
+    doc.content = resolvedContent
+    doc.externalContent = null
+    doc.saveStatus = isDocumentDirty(doc) ? 'unsaved' : 'saved'
+
+    if (isDocumentDirty(doc) && settingStore.settings.autoSave) {
+      scheduleAutoSave(doc.id)
+    }
+  }
+
+  /**
+   * 激活指定文档
+   */
+  function activateDocument(id: string): void {
+    if (findDocument(id)) {
+      activeDocumentId.value = id
+    }
+  }
+
+  /**
+   * 按标签顺序切换文档
+   * @param step 1 为下一个，-1 为上一个
+   */
+  function activateNextDocument(step: number = 1): void {
+    const count = documents.value.length
+    if (count < 2) return
+
+    const index = documents.value.findIndex((doc) => doc.id === activeDocumentId.value)
+    const nextDoc = documents.value[(index + step + count) % count]
+    if (nextDoc) {
+      activeDocumentId.value = nextDoc.id
+    }
+  }
+
+  /**
+   * 调整标签顺序
+   * @param fromIndex 原位置
+   * @param toIndex 目标位置
+   */
+  function moveDocument(fromIndex: number, toIndex: number): void {
+    const list = documents.value
+    if (fromIndex === toIndex) return
+    if (fromIndex < 0 || fromIndex >= list.length || toIndex < 0 || toIndex >= list.length) return
+
+    const [moved] = list.splice(fromIndex, 1)
+    if (moved) {
+      list.splice(toIndex, 0, moved)
+    }
+  }
+
+  /**
+   * 在当前标签之后插入文档并激活
+   * @param replacePristine 当前文档是空白的未命名文档时直接替换它
+   */
+  function insertDocument(doc: OpenDocument, replacePristine: boolean = false): void {
+    const list = documents.value
+    const activeIndex = list.findIndex((item) => item.id === activeDocumentId.value)
+    const active = list[activeIndex]
+
+    if (
+      replacePristine &&
+      active &&
+      !active.filePath &&
+      !active.content &&
+      !isDocumentDirty(active)
+    ) {
+      list.splice(activeIndex, 1, doc)
+    } else {
+      list.splice(activeIndex + 1, 0, doc)
+    }
+    activeDocumentId.value = doc.id
+  }
+
   /**
    * 打开文件
+   * 如果文件已在某个标签中打开，则切换到该标签
    * @param filePath 文件路径
+   * @param options.readOnly 以只读方式打开（仅本次，不记住锁定状态）
    */
-  async function openFile(filePath: string): Promise<boolean> {
-    try {
-      saveStatus.value = 'saving' // 复用状态表示加载中
-      errorMessage.value = null
-
-      // 停止监听旧文件
-      if (currentFilePath.value) {
-        await stopWatching(currentFilePath.value)
+  async function openFile(
+    filePath: string,
+    options: { readOnly?: boolean } = {},
+  ): Promise<boolean> {
+    const existing = findDocumentByPath(filePath)
+    if (existing) {
+      if (options.readOnly) {
+        existing.isLocked = true
+        cancelAutoSave(existing.id)
       }
+      activeDocumentId.value = existing.id
+      return true
+    }
 
+    try {
       const fs = getFileSystem()
       const result = await fs.readFile(filePath)
 
@@ -124,17 +452,22 @@ export const useFileStore = defineStore('file', () => {
         throw new Error(result.error ?? '读取文件失败')
       }
 
-      content.value = result.data
-      originalContent.value = result.data
-      currentFilePath.value = filePath
+      const doc = createDocument({
+        filePath,
+        content: result.data.content,
+        originalContent: result.data.content,
+      })
+      if (options.readOnly) {
+        doc.isLocked = true
+      }
 
       // 获取文件元信息
       const metaResult = await fs.getFileMetadata(filePath)
       if (metaResult.success && metaResult.data) {
-        fileMetadata.value = metaResult.data
+        doc.fileMetadata = { ...metaResult.data, ...result.data.format }
       }
 
-      saveStatus.value = 'saved'
+      insertDocument(doc, true)
 
       // 开始监听新文件
       await startWatching(filePath)
@@ -142,138 +475,528 @@ export const useFileStore = defineStore('file', () => {
       return true
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : '未知错误'
-      errorMessage.value = errMsg
-      saveStatus.value = 'error'
       console.error('[FileStore] openFile 失败:', errMsg)
       return false
     }
   }
 
+  /**
+   * 恢复崩溃或热退出前未保存的文档
+   * 已保存过的文件以磁盘内容为比较基准；磁盘上已不存在时标记为已删除
+   * @param fields 文件路径、未命名序号和未保存的内容
+   */
+  async function restoreDocument(
+    fields: Pick<OpenDocument, 'filePath' | 'untitledIndex' | 'content'>,
+  ): Promise<void> {
+    const { filePath, content } = fields
+
+    if (!filePath) {
+      const doc = createUntitledDocument(fields.untitledIndex)
+      doc.content = content
+      doc.saveStatus = isDocumentDirty(doc) ? 'unsaved' : 'saved'
+      insertDocument(doc, true)
+      return
+    }
+
+    const existing = findDocumentByPath(filePath)
+    if (existing) {
+      existing.content = content
+      existing.saveStatus = isDocumentDirty(existing) ? 'unsaved' : 'saved'
+      activeDocumentId.value = existing.id
+      return
+    }
+
+    const fs = getFileSystem()
+    const doc = createDocument({ filePath, content })
+    const result = await fs.readFile(filePath)
+
+    if (result.success && result.data !== undefined) {
+      doc.originalContent = result.data.content
+      const metaResult = await fs.getFileMetadata(filePath)
+      if (metaResult.success && metaResult.data) {
+        doc.fileMetadata = { ...metaResult.data, ...result.data.format }
+      }
+    } else {
+      doc.missingOnDisk = true
+    }
+
+    doc.saveStatus = isDocumentDirty(doc) ? 'unsaved' : 'saved'
+    insertDocument(doc, true)
+
+    if (!doc.missingOnDisk) {
+      await startWatching(filePath)
+    }
+  }
+
+  /**
+   * 记录版本历史（不阻塞保存）
+   * @param isAutoSave 是否由自动保存触发（距上次记录不足 AUTO_SAVE_HISTORY_INTERVAL 时跳过）
+   */
+  function recordHistory(filePath: string, fileContent: string, isAutoSave = false): void {
+    if (!settingStore.settings.historyEnabled) return
+
+    const now = Date.now()
+    const lastRecordedAt = historyRecordedAt.get(filePath) ?? 0
+    if (isAutoSave && now - lastRecordedAt < AUTO_SAVE_HISTORY_INTERVAL) return
+    historyRecordedAt.set(filePath, now)
+
+    getHistoryService()
+      .recordSnapshot(filePath, fileContent, {
+        maxEntries: settingStore.settings.historyMaxEntries,
+        maxDays: settingStore.settings.historyMaxDays,
+      })
+      .catch((error) => console.error('[FileStore] 记录历史版本失败:', error))
+  }
+
   /**
    * 保存文件
    * @param forcePath 强制保存到指定路径（另存为场景）
+   * @param documentId 要保存的文档（默认当前文档）
+   * @param isAutoSave 是否由自动保存触发（合并记录版本历史）
    */
-  async function saveFile(forcePath?: string): Promise<boolean> {
-    const targetPath = forcePath ?? currentFilePath.value
+  async function saveFile(
+    forcePath?: string,
+    documentId?: string,
+    isAutoSave = false,
+  ): Promise<boolean> {
+    const doc = findDocument(documentId ?? activeDocumentId.value)
+    if (!doc) return false
+
+    const targetPath = forcePath ?? doc.filePath
 
     // 新文件需要先选择保存位置
     if (!targetPath) {
-      return await saveFileAs()
+      return await saveFileAs(doc.id)
+    }
+
+    // 只读或已锁定的文档不覆盖原文件，改为另存为
+    if (isDocumentReadOnly(doc) && targetPath === doc.filePath) {
+      if (!forcePath) {
+        return await saveFileAs(doc.id)
+      }
+      doc.errorMessage = '文档为只读，不能覆盖原文件'
+      doc.saveStatus = 'error'
+      return false
+    }
+
+    // 另存为到其他标签页打开的文件时不覆盖（两个标签页会指向同一文件，共用文件监听）
+    const openedElsewhere = findDocumentByPath(targetPath)
+    if (openedElsewhere && openedElsewhere.id !== doc.id) {
+      doc.errorMessage = `${getBaseName(targetPath)} 已在其他标签页中打开，请先关闭后再另存为`
+      doc.saveStatus = 'error'
+      return false
     }
 
     try {
-      saveStatus.value = 'saving'
-      errorMessage.value = null
+      doc.saveStatus = 'saving'
+      doc.errorMessage = null
 
       const fs = getFileSystem()
-      const result = await fs.writeFile(targetPath, content.value)
+      const savedContent = doc.content
+      const wasMissing = doc.missingOnDisk
+      const textFormat = getDocumentTextFormat(doc)
+
+      // 先记录即将被覆盖的磁盘版本（与最近的历史版本相同时不会重复记录）
+      if (doc.filePath === targetPath && !wasMissing) {
+        recordHistory(targetPath, doc.externalContent ?? doc.originalContent, isAutoSave)
+      }
+
+      const result = await fs.writeFile(targetPath, savedContent, {
+        backupMode: settingStore.settings.backupMode,
+        backupCount: settingStore.settings.backupCount,
+        textFormat,
+      })
 
       if (!result.success) {
+        // 文件可能在打开后才变为只读，刷新状态以显示只读提示
+        if (result.errorCode === 'EACCES' || result.errorCode === 'EPERM') {
+          await refreshReadOnly(doc)
+        }
         throw new Error(result.error ?? '保存文件失败')
       }
 
-      originalContent.value = content.value
+      recordHistory(targetPath, savedContent, isAutoSave)
 
-      // 如果路径改变（另存为），更新监听
-      if (currentFilePath.value !== targetPath) {
-        if (currentFilePath.value) {
-          await stopWatching(currentFilePath.value)
+      doc.originalContent = savedContent
+      // 主动保存即以当前内容覆盖外部修改
+      doc.externalContent = null
+      doc.missingOnDisk = false
+
+      // 如果路径改变（另存为）或文件被删除后重新创建，更新监听
+      if (doc.filePath !== targetPath || wasMissing) {
+        if (doc.filePath) {
+          await stopWatching(doc.filePath)
         }
         await startWatching(targetPath)
       }
 
-      currentFilePath.value = targetPath
-      saveStatus.value = 'saved'
-      lastSavedAt.value = Date.now()
+      // 锁定状态跟随文件路径（另存为新文件后不再锁定）
+      if (doc.filePath !== targetPath) {
+        doc.isLocked = lockedPaths.has(targetPath)
+      }
+      doc.filePath = targetPath
+      doc.untitledIndex = 0
+      // 保存期间若继续输入，保持未保存状态
+      doc.saveStatus = isDocumentDirty(doc) ? 'unsaved' : 'saved'
+      doc.lastSavedAt = Date.now()
+
+      // 以写入时的格式为准（纯 ASCII 内容无法区分 UTF-8 和 GBK 等编码）
+      const metaResult = await fs.getFileMetadata(targetPath)
+      if (metaResult.success && metaResult.data) {
+        doc.fileMetadata = { ...metaResult.data, ...textFormat }
+      }
 
       console.log('[FileStore] 文件已保存:', targetPath)
       return true
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : '未知错误'
-      errorMessage.value = errMsg
-      saveStatus.value = 'error'
+      doc.errorMessage = errMsg
+      doc.saveStatus = 'error'
       console.error('[FileStore] saveFile 失败:', errMsg)
       return false
     }
   }
 
+  /**
+   * 以指定编码重新打开当前文件（放弃未保存的更改前会询问）
+   * 用于自动检测的编码不正确、显示为乱码的情况
+   * @param encoding 编码
+   */
+  async function reopenWithEncoding(encoding: TextEncoding): Promise<boolean> {
+    const doc = activeDocument.value
+    const filePath = doc.filePath
+    if (!filePath || doc.missingOnDisk) return false
+
+    if (!(await confirmUnsavedChanges([doc]))) {
+      return false
+    }
+
+    const fs = getFileSystem()
+    const result = await fs.readFile(filePath, encoding)
+    if (!result.success || result.data === undefined) {
+      console.error('[FileStore] 重新打开失败:', result.error)
+      return false
+    }
+
+    const metaResult = await fs.getFileMetadata(filePath)
+    if (metaResult.success && metaResult.data) {
+      doc.fileMetadata = { ...metaResult.data, ...result.data.format }
+    }
+
+    cancelAutoSave(doc.id)
+    doc.content = result.data.content
+    doc.originalContent = result.data.content
+    doc.externalContent = null
+    doc.saveStatus = 'saved'
+
+    // 按新的编码读取外部修改
+    await startWatching(filePath)
+
+    console.log('[FileStore] 已按', encoding, '重新打开:', filePath)
+    return true
+  }
+
+  /**
+   * 以新的文本格式（编码、BOM、换行符）保存当前文件
+   * @param format 要修改的格式
+   */
+  async function convertTextFormat(format: Partial<TextFormat>): Promise<boolean> {
+    const doc = activeDocument.value
+    const filePath = doc.filePath
+    // 只读或已锁定的文档不改写磁盘上的文件
+    if (!filePath || !doc.fileMetadata || isDocumentReadOnly(doc)) return false
+
+    const previous = getDocumentTextFormat(doc)
+    Object.assign(doc.fileMetadata, format)
+
+    // 写入前切换监听使用的编码，避免把自身保存的内容按旧编码读成乱码
+    const encodingChanged = previous.encoding !== doc.fileMetadata.encoding
+    if (encodingChanged) {
+      await startWatching(filePath)
+    }
+
+    if (!(await saveFile(undefined, doc.id))) {
+      // 例如内容中有新编码无法表示的字符
+      if (doc.fileMetadata) Object.assign(doc.fileMetadata, previous)
+      if (encodingChanged) await startWatching(filePath)
+      return false
+    }
+
+    console.log('[FileStore] 已转换文本格式:', filePath, getDocumentTextFormat(doc))
+    return true
+  }
+
+  /**
+   * 重新检查文件是否只读
+   */
+  async function refreshReadOnly(doc: OpenDocument): Promise<void> {
+    if (!doc.filePath || !doc.fileMetadata) return
+    const metaResult = await getFileSystem().getFileMetadata(doc.filePath)
+    if (metaResult.success && metaResult.data) {
+      doc.fileMetadata.isReadOnly = metaResult.data.isReadOnly
+    }
+  }
+
+  /**
+   * 尝试取消当前文件的只读状态
+   * @returns 失败时返回错误信息
+   */
+  async function makeWritable(): Promise<string | null> {
+    const doc = activeDocument.value
+    if (!doc.filePath) return null
+
+    const result = await getFileSystem().makeWritable(doc.filePath)
+    await refreshReadOnly(doc)
+
+    if (!result.success) {
+      console.error('[FileStore] 取消只读失败:', result.error)
+      return result.error ?? '无法取消只读'
+    }
+    console.log('[FileStore] 已取消只读:', doc.filePath)
+    return null
+  }
+
+  /**
+   * 锁定或解锁文档（锁定后只能查看，已保存文件的锁定状态会被记住）
+   * @param documentId 文档 ID（默认当前文档）
+   */
+  function toggleDocumentLock(documentId?: string): void {
+    const doc = findDocument(documentId ?? activeDocumentId.value)
+    if (!doc) return
+
+    doc.isLocked = !doc.isLocked
+    if (doc.isLocked) {
+      cancelAutoSave(doc.id)
+    }
+
+    if (doc.filePath) {
+      if (doc.isLocked) {
+        lockedPaths.add(doc.filePath)
+      } else {
+        lockedPaths.delete(doc.filePath)
+      }
+      localStorage.setItem(LOCKED_FILES_KEY, JSON.stringify([...lockedPaths]))
+    }
+  }
+
+  /**
+   * 将粘贴或拖入的图片保存到当前笔记的资源文件夹
+   * @param file 图片文件
+   * @returns 插入笔记的 Markdown 图片链接（相对于笔记）
+   */
+  async function saveImageAsset(file: File): Promise<string> {
+    const notePath = activeDocument.value.filePath
+    if (!notePath) {
+      throw new Error('请先保存笔记，图片会保存到笔记所在的文件夹')
+    }
+
+    const { imageFolder, imageNamePattern, imageMaxWidth, imageFormat } = settingStore.settings
+    const values = getAssetNameValues(getBaseName(notePath).replace(/\.[^.]*$/, ''), file)
+    const folderSegments = getAssetFolderSegments(imageFolder, values)
+    const baseName = formatAssetName(imageNamePattern, values) || 'image'
+    const image = await processImage(file, { maxWidth: imageMaxWidth, format: imageFormat })
+
+    // 同名文件已存在时追加序号
+    const fs = getFileSystem()
+    const folderPath = joinPath(getDirectory(notePath), ...folderSegments)
+    let fileName = `${baseName}.${image.extension}`
+    for (let index = 1; await fs.exists(joinPath(folderPath, fileName)); index++) {
+      fileName = `${baseName}-${index}.${image.extension}`
+    }
+
+    const targetPath = joinPath(folderPath, fileName)
+    const result = await fs.writeBinaryFile(targetPath, image.data)
+    if (!result.success) {
+      throw new Error(result.error ?? '保存图片失败')
+    }
+
+    console.log('[FileStore] 图片已保存:', targetPath)
+    return createImageMarkdown([...folderSegments, fileName])
+  }
+
   /**
    * 另存为
+   * @param documentId 要保存的文档（默认当前文档）
    */
-  async function saveFileAs(): Promise<boolean> {
+  async function saveFileAs(documentId?: string): Promise<boolean> {
+    const doc = findDocument(documentId ?? activeDocumentId.value)
+    if (!doc) return false
+
     try {
       const fs = getFileSystem()
-      const result = await fs.showSaveDialog(currentFileName.value)
+      const fileName = getDocumentName(doc)
+      const result = await fs.showSaveDialog(
+        doc.saveDirectory && !doc.filePath ? joinPath(doc.saveDirectory, fileName) : fileName,
+      )
 
       if (!result.success || !result.data) {
         // 用户取消
         return false
       }
 
-      return await saveFile(result.data)
+      return await saveFile(result.data, doc.id)
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : '未知错误'
-      errorMessage.value = errMsg
-      saveStatus.value = 'error'
+      doc.errorMessage = errMsg
+      doc.saveStatus = 'error'
       return false
     }
   }
 
   /**
-   * 创建新文件
+   * 创建新文件（在新标签中）
+   * @param directory 首次保存时的默认目录
+   * @param initialContent 初始内容（如模板）
    */
-  function createNewFile(): void {
-    if (currentFilePath.value) {
-      stopWatching(currentFilePath.value)
+  function createNewFile(directory?: string, initialContent: string = ''): void {
+    const doc = createUntitledDocument()
+    doc.saveDirectory = directory ?? null
+    doc.content = initialContent
+    doc.saveStatus = isDocumentDirty(doc) ? 'unsaved' : 'saved'
+    insertDocument(doc)
+  }
+
+  /**
+   * 关闭文档
+   * 关闭最后一个标签时会保留一个空白文档
+   * @param documentId 要关闭的文档（默认当前文档）
+   */
+  function closeDocument(documentId?: string): void {
+    const id = documentId ?? activeDocumentId.value
+    const index = documents.value.findIndex((doc) => doc.id === id)
+    const doc = documents.value[index]
+    if (!doc) return
+
+    if (doc.filePath) {
+      stopWatching(doc.filePath)
+      // 记录关闭时的磁盘版本（合并跳过的最后一次自动保存）
+      if (!doc.missingOnDisk) {
+        recordHistory(doc.filePath, doc.externalContent ?? doc.originalContent)
+      }
+      historyRecordedAt.delete(doc.filePath)
+    }
+    cancelAutoSave(doc.id)
+
+    documents.value.splice(index, 1)
+
+    if (documents.value.length === 0) {
+      documents.value.push(createUntitledDocument())
+    }
+
+    if (activeDocumentId.value === id) {
+      const neighbor = documents.value[Math.min(index, documents.value.length - 1)]!
+      activeDocumentId.value = neighbor.id
     }
-    content.value = ''
-    originalContent.value = ''
-    currentFilePath.value = null
-    fileMetadata.value = null
-    saveStatus.value = 'saved'
-    errorMessage.value = null
+  }
+
+  /**
+   * 询问如何处理文档中未保存的更改
+   * @param docs 要检查的文档（只询问其中有未保存更改的）
+   * @returns 是否可以继续（已保存或选择不保存）；取消或保存失败时返回 false
+   */
+  async function confirmUnsavedChanges(docs: OpenDocument[]): Promise<boolean> {
+    const dirtyDocs = docs.filter(isDocumentDirty)
+    if (dirtyDocs.length === 0) return true
+
+    const choice = await dialogStore.askUnsavedChanges(dirtyDocs)
+    if (choice === 'cancel') return false
+    if (choice === 'discard') return true
+
+    for (const doc of dirtyDocs) {
+      activateDocument(doc.id)
+      if (!(await saveFile(undefined, doc.id))) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * 关闭文档，有未保存的更改时先询问用户
+   * @param documentId 要关闭的文档（默认当前文档）
+   * @returns 是否已关闭
+   */
+  async function requestCloseDocument(documentId?: string): Promise<boolean> {
+    const doc = findDocument(documentId ?? activeDocumentId.value)
+    if (!doc) return false
+
+    if (!(await confirmUnsavedChanges([doc]))) {
+      return false
+    }
+
+    closeDocument(doc.id)
+    return true
   }
 
   /**
    * 更新内容（由编辑器调用）
    */
   function updateContent(newContent: string): void {
-    content.value = newContent
-    if (hasUnsavedChanges.value) {
-      saveStatus.value = 'unsaved'
+    const doc = activeDocument.value
+    doc.content = newContent
+
+    if (isDocumentDirty(doc)) {
+      doc.saveStatus = 'unsaved'
+
+      // 仅在开启自动保存时触发
+      if (settingStore.settings.autoSave && doc.externalContent === null && !doc.missingOnDisk) {
+        scheduleAutoSave(doc.id)
+      }
     }
   }
 
+  // ========== 自动保存 ==========
+
   /**
-   * 防抖保存函数引用
+   * 各文档的防抖保存函数
    */
-  let debouncedSave: ReturnType<typeof debounce> | null = null
+  const autoSaveTimers = new Map<string, DebouncedFunc<() => Promise<void>>>()
 
   /**
-   * 更新防抖保存函数
+   * 为文档安排一次防抖自动保存
    */
-  function updateDebouncedSave() {
-    if (debouncedSave) {
-      debouncedSave.cancel()
+  function scheduleAutoSave(documentId: string): void {
+    let debouncedSave = autoSaveTimers.get(documentId)
+
+    if (!debouncedSave) {
+      debouncedSave = debounce(async () => {
+        const doc = findDocument(documentId)
+        // 存在外部冲突、文件已被删除或只读时不自动写入磁盘
+        if (!doc || doc.externalContent !== null || doc.missingOnDisk || isDocumentReadOnly(doc))
+          return
+        if (doc.filePath && isDocumentDirty(doc)) {
+          console.log('[FileStore] 自动保存触发:', doc.filePath)
+          await saveFile(undefined, documentId, true)
+        }
+      }, settingStore.settings.autoSaveDelay)
+      autoSaveTimers.set(documentId, debouncedSave)
     }
 
-    debouncedSave = debounce(async () => {
-      if (currentFilePath.value && hasUnsavedChanges.value) {
-        console.log('[FileStore] 自动保存触发')
-        await saveFile()
-      }
-    }, settingStore.settings.autoSaveDelay)
+    debouncedSave()
   }
 
-  // 初始化防抖函数
-  updateDebouncedSave()
+  /**
+   * 取消文档的自动保存
+   */
+  function cancelAutoSave(documentId: string): void {
+    autoSaveTimers.get(documentId)?.cancel()
+    autoSaveTimers.delete(documentId)
+  }
+
+  /**
+   * 取消所有自动保存（延迟变化后会按新延迟重新创建）
+   */
+  function cancelAllAutoSaves(): void {
+    autoSaveTimers.forEach((debouncedSave) => debouncedSave.cancel())
+    autoSaveTimers.clear()
+  }
 
   // 监听配置变化：延迟时间
   watch(
     () => settingStore.settings.autoSaveDelay,
     () => {
       console.log('[FileStore] 自动保存延迟更新:', settingStore.settings.autoSaveDelay)
-      updateDebouncedSave()
+      cancelAllAutoSaves()
     },
   )
 
@@ -282,24 +1005,12 @@ export const useFileStore = defineStore('file', () => {
     () => settingStore.settings.autoSave,
     (enabled) => {
       console.log('[FileStore] 自动保存开关:', enabled)
-      if (!enabled && debouncedSave) {
-        debouncedSave.cancel()
+      if (!enabled) {
+        cancelAllAutoSaves()
       }
     },
   )
 
-  // 监听内容变化，触发防抖保存
-  watch(content, () => {
-    if (hasUnsavedChanges.value) {
-      saveStatus.value = 'unsaved'
-
-      // 仅在开启自动保存时触发
-      if (settingStore.settings.autoSave && debouncedSave) {
-        debouncedSave()
-      }
-    }
-  })
-
   /**
    * 显示打开文件对话框
    */
@@ -322,24 +1033,43 @@ export const useFileStore = defineStore('file', () => {
   // ========== 导出 ==========
   return {
     // State
+    documents,
+    activeDocumentId,
+
+    // Getters
+    activeDocument,
     currentFilePath,
     content,
     fileMetadata,
     saveStatus,
     lastSavedAt,
     errorMessage,
-
-    // Getters
     hasUnsavedChanges,
+    hasAnyUnsavedChanges,
+    isReadOnly,
     currentFileName,
     isNewFile,
+    frontMatter,
 
     // Actions
     openFile,
+    restoreDocument,
     saveFile,
     saveFileAs,
+    reopenWithEncoding,
+    convertTextFormat,
+    makeWritable,
+    toggleDocumentLock,
+    saveImageAsset,
     createNewFile,
+    closeDocument,
+    requestCloseDocument,
+    confirmUnsavedChanges,
+    activateDocument,
+    activateNextDocument,
+    moveDocument,
     updateContent,
+    resolveConflict,
     showOpenFileDialog,
   }
 })
@@ -5,7 +5,22 @@
 
 export { useAppStore } from './appStore'
 export type { ThemeMode, ViewMode } from './appStore'
-export { useFileStore } from './fileStore'
-export type { SaveStatus } from './fileStore'
+export { useDialogStore } from './dialogStore'
+export type { UnsavedChangesChoice } from './dialogStore'
+export {
+  getDocumentName,
+  getDocumentTextFormat,
+  getDocumentTitle,
+  isDocumentDirty,
+  isDocumentReadOnly,
+  useFileStore,
+} from './fileStore'
+export type { OpenDocument, SaveStatus } from './fileStore'
+export { useLinkStore } from './linkStore'
+export type { BacklinkReference, NoteBacklinks } from './linkStore'
+export { useNavigationStore } from './navigationStore'
+export type { NavigationLocation } from './navigationStore'
+export { useRecoveryStore } from './recoveryStore'
 export { useSettingStore } from './settingStore'
+export { useWorkspaceStore } from './workspaceStore'
 
@@ -0,0 +1,192 @@
+// src/stores/linkStore.ts
+/**
+ * 🔗 Wiki 链接状态管理 Store
+ *
+ * - 记录当前文件所在文件夹中的笔记，供预览解析 [[笔记名]] 链接
+ * - 收集文件夹中链接到当前笔记的反向链接（打开的文档使用编辑中的内容）
+ */
+
+import { parseMarkdown } from '@/common/markdown/renderer'
+import { collectWikiLinks, resolveWikiLink } from '@/common/markdown/wikiLink'
+import { getBaseName, getDirectory, isMarkdownFile } from '@/common/utils/path'
+import { useFileSystem } from '@/platforms/adapter'
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useFileStore } from './fileStore'
+
+/**
+ * 链接到当前笔记的一处引用
+ */
+export interface BacklinkReference {
+  /** 所在行（从 1 开始） */
+  line: number
+  /** 所在行的文本 */
+  snippet: string
+}
+
+/**
+ * 一篇笔记中指向当前笔记的所有引用
+ */
+export interface NoteBacklinks {
+  /** 笔记路径 */
+  path: string
+  /** 笔记名（不含扩展名） */
+  name: string
+  references: BacklinkReference[]
+}
+
+export const useLinkStore = defineStore('link', () => {
+  // ========== 状态 ==========
+
+  const fileStore = useFileStore()
+
+  /** 当前文件夹中的笔记路径 */
+  const notePaths = ref<string[]>([])
+
+  /** 反向链接（按笔记名排序） */
+  const backlinks = ref<NoteBacklinks[]>([])
+
+  /** 是否正在收集反向链接 */
+  const isLoadingBacklinks = ref(false)
+
+  /** 最近一次请求的序号（丢弃切换文件前发起的过期结果） */
+  let notesRequestId = 0
+  let backlinksRequestId = 0
+
+  // ========== 计算属性 ==========
+
+  /** 当前文件所在文件夹（未保存的新文件为 null） */
+  const currentFolder = computed(() =>
+    fileStore.currentFilePath ? getDirectory(fileStore.currentFilePath) : null,
+  )
+
+  /** 反向链接总数 */
+  const backlinkCount = computed(() =>
+    backlinks.value.reduce((sum, note) => sum + note.references.length, 0),
+  )
+
+  // ========== 操作 ==========
+
+  const getFileSystem = () => useFileSystem()
+
+  /**
+   * 解析 Wiki 链接的目标笔记
+   * @param target 笔记名（为空时指向当前笔记）
+   * @returns 笔记路径；找不到时返回 null
+   */
+  function resolve(target: string): string | null {
+    return resolveWikiLink(target, notePaths.value, fileStore.currentFilePath)
+  }
+
+  /**
+   * 重新读取当前文件夹中的笔记列表
+   */
+  async function loadNotes(): Promise<void> {
+    const requestId = ++notesRequestId
+    const folder = currentFolder.value
+    if (!folder) {
+      notePaths.value = []
+      return
+    }
+
+    try {
+      const result = await getFileSystem().listDirectory(folder)
+      if (!result.success || !result.data) {
+        throw new Error(result.error ?? '读取目录失败')
+      }
+      if (requestId !== notesRequestId) return
+      notePaths.value = result.data
+        .filter((entry) => !entry.isDirectory && isMarkdownFile(entry.name))
+        .map((entry) => entry.path)
+    } catch (error) {
+      console.error('[LinkStore] loadNotes 失败:', folder, error)
+      if (requestId === notesRequestId) {
+        notePaths.value = []
+      }
+    }
+  }
+
+  /**
+   * 读取笔记内容（已打开的文档使用编辑中的内容）
+   */
+  async function readNote(path: string): Promise<string | null> {
+    const doc = fileStore.documents.find((item) => item.filePath === path)
+    if (doc) return doc.content
+
+    const result = await getFileSystem().readFile(path)
+    return result.success ? (result.data?.content ?? '') : null
+  }
+
+  /**
+   * 重新收集链接到当前笔记的反向链接
+   */
+  async function loadBacklinks(): Promise<void> {
+    const requestId = ++backlinksRequestId
+    const currentPath = fileStore.currentFilePath
+    if (!currentPath) {
+      backlinks.value = []
+      return
+    }
+
+    isLoadingBacklinks.value = true
+    try {
+      await loadNotes()
+      const paths = notePaths.value
+      const results = await Promise.all(
+        paths
+          .filter((path) => path !== currentPath)
+          .map(async (path): Promise<NoteBacklinks | null> => {
+            const content = await readNote(path)
+            if (content === null || !content.includes('[[')) return null
+
+            const references = collectWikiLinks(parseMarkdown(content), content)
+              .filter(({ link }) => resolveWikiLink(link.target, paths, path) === currentPath)
+              .map(({ line, snippet }) => ({ line, snippet }))
+            if (references.length === 0) return null
+
+            return { path, name: getBaseName(path).replace(/\.(md|markdown)$/i, ''), references }
+          }),
+      )
+      if (requestId !== backlinksRequestId) return
+
+      backlinks.value = results
+        .filter((note): note is NoteBacklinks => note !== null)
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    } catch (error) {
+      console.error('[LinkStore] loadBacklinks 失败:', currentPath, error)
+      if (requestId === backlinksRequestId) {
+        backlinks.value = []
+      }
+    } finally {
+      if (requestId === backlinksRequestId) {
+        isLoadingBacklinks.value = false
+      }
+    }
+  }
+
+  // 切换到其他文件夹的文件时重新读取笔记列表
+  watch(currentFolder, () => loadNotes(), { immediate: true })
+
+  // 保存文档后（可能是另存为的新笔记）刷新笔记列表
+  watch(
+    () => fileStore.documents.map((doc) => doc.lastSavedAt),
+    () => loadNotes(),
+  )
+
+  // ========== 导出 ==========
+  return {
+    // State
+    notePaths,
+    backlinks,
+    isLoadingBacklinks,
+
+    // Getters
+    currentFolder,
+    backlinkCount,
+
+    // Actions
+    resolve,
+    loadNotes,
+    loadBacklinks,
+  }
+})
@@ -0,0 +1,127 @@
+// src/stores/navigationStore.ts
+/**
+ * 🧭 链接跳转历史 Store
+ *
+ * 通过链接（Wiki 链接、笔记链接、反向链接）打开其他笔记时记录离开的位置，
+ * 可像浏览器一样后退/前进（Alt+←/→）。
+ */
+
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+
+/**
+ * 跳转历史中的位置
+ */
+export interface NavigationLocation {
+  /** 笔记路径 */
+  path: string
+  /** 光标所在行（从 1 开始） */
+  line: number
+}
+
+/** 每个方向最多保留的位置数 */
+const MAX_HISTORY = 100
+
+export const useNavigationStore = defineStore('navigation', () => {
+  // ========== 状态 ==========
+
+  /** 可后退到的位置（最近的在末尾） */
+  const backStack = ref<NavigationLocation[]>([])
+
+  /** 可前进到的位置（最近的在末尾） */
+  const forwardStack = ref<NavigationLocation[]>([])
+
+  // ========== 计算属性 ==========
+
+  const canGoBack = computed(() => backStack.value.length > 0)
+
+  const canGoForward = computed(() => forwardStack.value.length > 0)
+
+  // ========== 操作 ==========
+
+  /**
+   * 压入位置（与栈顶相同时不重复记录）
+   */
+  function pushLocation(stack: NavigationLocation[], location: NavigationLocation): void {
+    const last = stack[stack.length - 1]
+    if (last && last.path === location.path && last.line === location.line) return
+    stack.push(location)
+    if (stack.length > MAX_HISTORY) {
+      stack.shift()
+    }
+  }
+
+  /**
+   * 跳转前记录离开的位置（清空前进历史）
+   * @param location 当前位置（未保存的新文件为 null，不记录）
+   */
+  function recordNavigation(location: NavigationLocation | null): void {
+    if (!location) return
+    pushLocation(backStack.value, location)
+    forwardStack.value = []
+  }
+
+  /**
+   * 查看后退要返回的位置（不修改历史，打开成功后再调用 goBack）
+   */
+  function peekBack(): NavigationLocation | null {
+    return backStack.value[backStack.value.length - 1] ?? null
+  }
+
+  /**
+   * 查看前进要前往的位置（不修改历史，打开成功后再调用 goForward）
+   */
+  function peekForward(): NavigationLocation | null {
+    return forwardStack.value[forwardStack.value.length - 1] ?? null
+  }
+
+  /**
+   * 把 from 栈顶的位置移出，当前位置记入 to
+   * 栈顶已不是 location 时（打开期间历史发生了变化）不做修改
+   */
+  function moveLocation(
+    from: NavigationLocation[],
+    to: NavigationLocation[],
+    location: NavigationLocation,
+    current: NavigationLocation | null,
+  ): void {
+    if (from[from.length - 1] !== location) return
+    from.pop()
+    if (current) pushLocation(to, current)
+  }
+
+  /**
+   * 完成后退
+   * @param location peekBack 得到的位置（已成功打开）
+   * @param current 离开的位置（记入前进历史）
+   */
+  function goBack(location: NavigationLocation, current: NavigationLocation | null): void {
+    moveLocation(backStack.value, forwardStack.value, location, current)
+  }
+
+  /**
+   * 完成前进
+   * @param location peekForward 得到的位置（已成功打开）
+   * @param current 离开的位置（记入后退历史）
+   */
+  function goForward(location: NavigationLocation, current: NavigationLocation | null): void {
+    moveLocation(forwardStack.value, backStack.value, location, current)
+  }
+
+  return {
+    // State
+    backStack,
+    forwardStack,
+
+    // Getters
+    canGoBack,
+    canGoForward,
+
+    // Actions
+    recordNavigation,
+    peekBack,
+    peekForward,
+    goBack,
+    goForward,
+  }
+})
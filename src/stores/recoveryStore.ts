@@ -0,0 +1,175 @@
+// src/stores/recoveryStore.ts
+/**
+ * 🛟 崩溃恢复状态管理 Store
+ *
+ * - 定期将未保存的文档（包括未命名文档）写入恢复快照
+ * - 启动时检查上次遗留的快照：开启热退出时直接恢复，否则询问用户
+ * - 关闭窗口时：开启热退出则保留快照，否则清除
+ */
+
+import type { RecoverySnapshot } from '@/common/types'
+import { useRecoveryService } from '@/platforms/adapter'
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import { isDocumentDirty, useFileStore } from './fileStore'
+import { useSettingStore } from './settingStore'
+
+/** 快照间隔（毫秒） */
+const SNAPSHOT_INTERVAL = 5000
+
+export const useRecoveryStore = defineStore('recovery', () => {
+  // ========== 状态 ==========
+
+  const fileStore = useFileStore()
+  const settingStore = useSettingStore()
+
+  /** 等待用户决定是否恢复的快照 */
+  const pendingSnapshots = ref<RecoverySnapshot[]>([])
+
+  /** 各文档最近一次写入快照时的路径和内容 */
+  const persistedStates = new Map<string, { filePath: string | null; content: string }>()
+
+  let snapshotTimer: ReturnType<typeof setInterval> | null = null
+
+  /** 串行执行快照写入，保证关闭前的最后一次写入不会被跳过 */
+  let persistQueue: Promise<void> = Promise.resolve()
+
+  // ========== 计算属性 ==========
+
+  /** 是否有可恢复的快照 */
+  const hasPendingSnapshots = computed(() => pendingSnapshots.value.length > 0)
+
+  // ========== 操作 ==========
+
+  const getRecoveryService = () => useRecoveryService()
+
+  /**
+   * 将有变化的未保存文档写入快照，并删除已保存或已关闭文档的快照
+   */
+  function persistSnapshots(): Promise<void> {
+    persistQueue = persistQueue.then(writeSnapshots)
+    return persistQueue
+  }
+
+  /**
+   * 写入快照（仅由 persistSnapshots 排队调用）
+   */
+  async function writeSnapshots(): Promise<void> {
+    try {
+      const service = getRecoveryService()
+      const dirtyIds = new Set<string>()
+
+      for (const doc of fileStore.documents) {
+        if (!isDocumentDirty(doc)) continue
+        dirtyIds.add(doc.id)
+
+        const persisted = persistedStates.get(doc.id)
+        if (persisted?.content === doc.content && persisted.filePath === doc.filePath) continue
+
+        persistedStates.set(doc.id, { filePath: doc.filePath, content: doc.content })
+        await service.saveSnapshot({
+          documentId: doc.id,
+          filePath: doc.filePath,
+          untitledIndex: doc.untitledIndex,
+          content: doc.content,
+          savedAt: Date.now(),
+        })
+      }
+
+      for (const documentId of [...persistedStates.keys()]) {
+        if (!dirtyIds.has(documentId)) {
+          persistedStates.delete(documentId)
+          await service.removeSnapshot(documentId)
+        }
+      }
+    } catch (error) {
+      console.error('[RecoveryStore] 写入恢复快照失败:', error)
+    }
+  }
+
+  /**
+   * 初始化：检查遗留快照并开始定期写入
+   */
+  async function initialize(): Promise<void> {
+    // 热退出开关决定是否自动恢复，需先加载设置
+    if (!settingStore.isLoaded) {
+      await settingStore.loadSettings()
+    }
+
+    const snapshots = await getRecoveryService().listRecoverableSnapshots()
+
+    if (snapshots.length > 0) {
+      if (settingStore.settings.hotExit) {
+        console.log('[RecoveryStore] 热退出：自动恢复', snapshots.length, '个文档')
+        await restoreSnapshots(snapshots)
+      } else {
+        pendingSnapshots.value = snapshots
+      }
+    }
+
+    if (!snapshotTimer) {
+      snapshotTimer = setInterval(persistSnapshots, SNAPSHOT_INTERVAL)
+    }
+  }
+
+  /**
+   * 恢复遗留快照
+   * @param snapshots 要恢复的快照（默认为等待用户决定的全部快照）
+   */
+  async function restoreSnapshots(
+    snapshots: RecoverySnapshot[] = pendingSnapshots.value,
+  ): Promise<void> {
+    const ordered = [...snapshots].sort((a, b) => a.savedAt - b.savedAt)
+    pendingSnapshots.value = []
+
+    for (const snapshot of ordered) {
+      await fileStore.restoreDocument(snapshot)
+    }
+
+    // 先写入本次会话的快照，再删除旧快照，避免中途崩溃丢失
+    await persistSnapshots()
+    await getRecoveryService().discardRecoverableSnapshots()
+  }
+
+  /**
+   * 丢弃全部遗留快照
+   */
+  async function discardSnapshots(): Promise<void> {
+    pendingSnapshots.value = []
+    await getRecoveryService().discardRecoverableSnapshots()
+  }
+
+  /**
+   * 窗口关闭前调用
+   * 开启热退出时保留未保存的文档，供下次启动恢复；否则清除本次会话的快照
+   */
+  async function handleAppClose(): Promise<void> {
+    if (snapshotTimer) {
+      clearInterval(snapshotTimer)
+      snapshotTimer = null
+    }
+
+    if (settingStore.settings.hotExit) {
+      await persistSnapshots()
+    } else {
+      await persistQueue
+      persistedStates.clear()
+      await getRecoveryService().clearSnapshots()
+    }
+  }
+
+  return {
+    // State
+    pendingSnapshots,
+
+    // Getters
+    hasPendingSnapshots,
+
+    // Actions
+    initialize,
+    persistSnapshots,
+    restoreSnapshots,
+    discardSnapshots,
+    handleAppClose,
+  }
+})
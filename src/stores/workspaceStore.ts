@@ -0,0 +1,287 @@
+// src/stores/workspaceStore.ts
+/**
+ * 🗂️ 工作区（文件夹）状态管理 Store
+ *
+ * 管理"打开文件夹"后侧边栏中的文件树：
+ * - 目录内容按需加载（展开时才读取）
+ * - 通过 IFileSystem.watchDirectory 监听磁盘上的增删，实时刷新
+ * - 只显示子目录与 Markdown 文件
+ */
+
+import type { DirectoryEntry } from '@/common/types'
+import { getBaseName, getDirectory, isMarkdownFile, isSubPath, joinPath } from '@/common/utils/path'
+import { useFileSystem } from '@/platforms/adapter'
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+
+/** 持久化最近打开文件夹的键名 */
+const STORAGE_KEY = '0xNote:workspace'
+
+/** 文件树中忽略的目录 */
+const IGNORED_DIRECTORIES = new Set(['node_modules'])
+
+/**
+ * 是否在文件树中显示该条目
+ */
+function isVisibleEntry(entry: DirectoryEntry): boolean {
+  // 隐藏以 . 开头的文件和目录（如 .git）
+  if (entry.name.startsWith('.')) return false
+  if (entry.isDirectory) return !IGNORED_DIRECTORIES.has(entry.name)
+  return isMarkdownFile(entry.name)
+}
+
+/**
+ * 条目排序：目录在前，名称按自然顺序
+ */
+function compareEntries(a: DirectoryEntry, b: DirectoryEntry): number {
+  if (a.isDirectory !== b.isDirectory) {
+    return a.isDirectory ? -1 : 1
+  }
+  return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+}
+
+export const useWorkspaceStore = defineStore('workspace', () => {
+  // ========== 状态 ==========
+
+  /** 工作区根目录 */
+  const rootPath = ref<string | null>(null)
+
+  /** 已加载的目录内容（目录路径 -> 子条目） */
+  const directoryContents = ref<Record<string, DirectoryEntry[]>>({})
+
+  /** 已展开的目录 */
+  const expandedPaths = ref(new Set<string>())
+
+  /** 正在加载的目录 */
+  const loadingPaths = ref(new Set<string>())
+
+  /** 错误信息 */
+  const errorMessage = ref<string | null>(null)
+
+  // ========== 计算属性 ==========
+
+  /** 工作区名称（根目录名） */
+  const rootName = computed(() => (rootPath.value ? getBaseName(rootPath.value) : ''))
+
+  /** 根目录下的条目 */
+  const rootEntries = computed(() =>
+    rootPath.value ? (directoryContents.value[rootPath.value] ?? []) : [],
+  )
+
+  // ========== 操作 ==========
+
+  const getFileSystem = () => useFileSystem()
+
+  /**
+   * 读取目录内容
+   */
+  async function loadDirectory(dirPath: string): Promise<void> {
+    loadingPaths.value.add(dirPath)
+    try {
+      const result = await getFileSystem().listDirectory(dirPath)
+      if (!result.success || !result.data) {
+        throw new Error(result.error ?? '读取目录失败')
+      }
+      directoryContents.value[dirPath] = result.data.filter(isVisibleEntry).sort(compareEntries)
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : '未知错误'
+      console.error('[WorkspaceStore] loadDirectory 失败:', dirPath, errMsg)
+      // 目录已不存在时移除缓存
+      delete directoryContents.value[dirPath]
+      expandedPaths.value.delete(dirPath)
+      if (dirPath === rootPath.value) {
+        errorMessage.value = errMsg
+      }
+    } finally {
+      loadingPaths.value.delete(dirPath)
+    }
+  }
+
+  /**
+   * 处理磁盘变化：重新加载受影响且已加载的父目录
+   */
+  async function handleDirectoryChanged(changedPaths: string[]): Promise<void> {
+    const dirsToReload = new Set<string>()
+
+    for (const changedPath of changedPaths) {
+      const parent = getDirectory(changedPath)
+      if (parent in directoryContents.value) {
+        dirsToReload.add(parent)
+      }
+      // 被删除的目录：清理其下所有缓存
+      for (const loadedPath of Object.keys(directoryContents.value)) {
+        if (loadedPath !== parent && isSubPath(changedPath, loadedPath)) {
+          dirsToReload.add(loadedPath)
+        }
+      }
+    }
+
+    await Promise.all([...dirsToReload].map((dirPath) => loadDirectory(dirPath)))
+  }
+
+  /**
+   * 打开文件夹作为工作区
+   */
+  async function openFolder(dirPath: string): Promise<boolean> {
+    await closeFolder()
+
+    rootPath.value = dirPath
+    errorMessage.value = null
+    await loadDirectory(dirPath)
+
+    if (!(dirPath in directoryContents.value)) {
+      rootPath.value = null
+      return false
+    }
+
+    localStorage.setItem(STORAGE_KEY, dirPath)
+    await getFileSystem().watchDirectory(dirPath, handleDirectoryChanged)
+    console.log('[WorkspaceStore] 已打开文件夹:', dirPath)
+    return true
+  }
+
+  /**
+   * 显示"打开文件夹"对话框
+   */
+  async function showOpenFolderDialog(): Promise<boolean> {
+    const result = await getFileSystem().showOpenFolderDialog()
+    if (!result.success || !result.data) {
+      return false
+    }
+    return await openFolder(result.data)
+  }
+
+  /**
+   * 关闭当前工作区
+   */
+  async function closeFolder(): Promise<void> {
+    if (rootPath.value) {
+      await getFileSystem().unwatchDirectory(rootPath.value)
+    }
+    rootPath.value = null
+    directoryContents.value = {}
+    expandedPaths.value.clear()
+    localStorage.removeItem(STORAGE_KEY)
+  }
+
+  /**
+   * 恢复上次打开的文件夹
+   */
+  async function restoreLastFolder(): Promise<void> {
+    const savedPath = localStorage.getItem(STORAGE_KEY)
+    if (savedPath && (await getFileSystem().exists(savedPath))) {
+      await openFolder(savedPath)
+    }
+  }
+
+  /**
+   * 展开/折叠目录
+   */
+  async function toggleExpand(dirPath: string): Promise<void> {
+    if (expandedPaths.value.has(dirPath)) {
+      expandedPaths.value.delete(dirPath)
+      return
+    }
+    await expand(dirPath)
+  }
+
+  /**
+   * 展开目录（必要时加载内容）
+   */
+  async function expand(dirPath: string): Promise<void> {
+    expandedPaths.value.add(dirPath)
+    if (!(dirPath in directoryContents.value)) {
+      await loadDirectory(dirPath)
+    }
+  }
+
+  /**
+   * 折叠所有目录
+   */
+  function collapseAll(): void {
+    expandedPaths.value.clear()
+  }
+
+  /**
+   * 重新加载所有已加载的目录
+   */
+  async function refresh(): Promise<void> {
+    await Promise.all(Object.keys(directoryContents.value).map((dirPath) => loadDirectory(dirPath)))
+  }
+
+  /**
+   * 校验新建条目的名称
+   */
+  function validateName(name: string): string | null {
+    if (!name.trim()) return '名称不能为空'
+    if (/[<>:"/\\|?*]/.test(name)) return '名称不能包含 < > : " / \\ | ? *'
+    return null
+  }
+
+  /**
+   * 在目录中新建 Markdown 文件
+   * @returns 新文件路径，失败时抛出错误
+   */
+  async function createFile(parentPath: string, name: string): Promise<string> {
+    const validationError = validateName(name)
+    if (validationError) throw new Error(validationError)
+
+    const fileName = isMarkdownFile(name) ? name.trim() : `${name.trim()}.md`
+    const fs = getFileSystem()
+    if (await fs.exists(joinPath(parentPath, fileName))) {
+      throw new Error(`文件已存在: ${fileName}`)
+    }
+
+    const result = await fs.createFile(parentPath, fileName)
+    if (!result.success || !result.data) {
+      throw new Error(result.error ?? '创建文件失败')
+    }
+
+    await loadDirectory(parentPath)
+    return result.data
+  }
+
+  /**
+   * 在目录中新建子目录
+   * @returns 新目录路径，失败时抛出错误
+   */
+  async function createFolder(parentPath: string, name: string): Promise<string> {
+    const validationError = validateName(name)
+    if (validationError) throw new Error(validationError)
+
+    const dirPath = joinPath(parentPath, name.trim())
+    const result = await getFileSystem().createDirectory(dirPath)
+    if (!result.success) {
+      throw new Error(result.error ?? '创建文件夹失败')
+    }
+
+    await loadDirectory(parentPath)
+    return dirPath
+  }
+
+  return {
+    // State
+    rootPath,
+    directoryContents,
+    expandedPaths,
+    loadingPaths,
+    errorMessage,
+
+    // Getters
+    rootName,
+    rootEntries,
+
+    // Actions
+    openFolder,
+    showOpenFolderDialog,
+    closeFolder,
+    restoreLastFolder,
+    loadDirectory,
+    toggleExpand,
+    expand,
+    collapseAll,
+    refresh,
+    createFile,
+    createFolder,
+  }
+})
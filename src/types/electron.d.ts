@@ -5,24 +5,77 @@
  * 扩展 Window 接口，添加 electron 属性
  */
 
-import type { FileMetadata, FileOperationResult } from '@/common/types'
+import type {
+    DirectoryEntry,
+    ExportRenderRequest,
+    FileOperationResult,
+    FileStats,
+    HistoryEntry,
+    HistoryRetention,
+    LaunchOptions,
+    RecoverySnapshot,
+    TextEncoding,
+    TextFileContent,
+    WriteFileOptions,
+} from '@/common/types'
 
 export interface ElectronAPI {
     fs: {
-        readFile: (filePath: string) => Promise<FileOperationResult<string>>
-        writeFile: (filePath: string, content: string) => Promise<FileOperationResult>
+        readFile: (
+            filePath: string,
+            encoding?: TextEncoding,
+        ) => Promise<FileOperationResult<TextFileContent>>
+        writeFile: (
+            filePath: string,
+            content: string,
+            options?: WriteFileOptions,
+        ) => Promise<FileOperationResult>
+        writeBinaryFile: (filePath: string, data: Uint8Array) => Promise<FileOperationResult>
         exists: (filePath: string) => Promise<boolean>
-        getMetadata: (filePath: string) => Promise<FileOperationResult<FileMetadata>>
-        watchFile: (filePath: string) => Promise<FileOperationResult>
+        getMetadata: (filePath: string) => Promise<FileOperationResult<FileStats>>
+        makeWritable: (filePath: string) => Promise<FileOperationResult>
+        watchFile: (filePath: string, encoding?: TextEncoding) => Promise<FileOperationResult>
         unwatchFile: (filePath: string) => Promise<FileOperationResult>
         onFileChanged: (callback: (filePath: string, content: string) => void) => void
+        onFileRemoved: (callback: (filePath: string, newPath: string | null) => void) => void
+        readDirectory: (dirPath: string) => Promise<FileOperationResult<DirectoryEntry[]>>
+        createDirectory: (dirPath: string) => Promise<FileOperationResult>
+        watchDirectory: (dirPath: string) => Promise<FileOperationResult>
+        unwatchDirectory: (dirPath: string) => Promise<FileOperationResult>
+        onDirectoryChanged: (callback: (dirPath: string, changedPaths: string[]) => void) => void
     }
     dialog: {
         openFile: () => Promise<FileOperationResult<string>>
         saveFile: (defaultFileName: string) => Promise<FileOperationResult<string>>
+        openFolder: () => Promise<FileOperationResult<string>>
     }
     app: {
-        getLaunchArgs: () => Promise<string[]>
+        getLaunchOptions: () => Promise<LaunchOptions>
+        openWindow: (launchOptions: LaunchOptions) => Promise<void>
+        onSecondInstance: (callback: (launchOptions: LaunchOptions) => void) => void
+        readTemplate: (name: string) => Promise<FileOperationResult<string>>
+        onOpenNote: (callback: (filePath: string, heading: string | null) => void) => void
+    }
+    recovery: {
+        save: (sessionId: string, snapshot: RecoverySnapshot) => Promise<FileOperationResult>
+        remove: (sessionId: string, documentId: string) => Promise<FileOperationResult>
+        clear: (sessionId: string) => Promise<FileOperationResult>
+        list: (sessionId: string) => Promise<FileOperationResult<RecoverySnapshot[]>>
+        discard: (sessionId: string) => Promise<FileOperationResult>
+    }
+    exporter: {
+        onRenderRequest: (callback: (request: ExportRenderRequest) => void) => void
+        sendResult: (requestId: number, result: FileOperationResult<string>) => Promise<void>
+        ready: () => Promise<void>
+    }
+    history: {
+        record: (
+            filePath: string,
+            content: string,
+            retention: HistoryRetention,
+        ) => Promise<FileOperationResult<HistoryEntry | null>>
+        list: (filePath: string) => Promise<FileOperationResult<HistoryEntry[]>>
+        read: (filePath: string, entryId: string) => Promise<FileOperationResult<string>>
     }
 }
 
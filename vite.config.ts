@@ -24,6 +24,10 @@ export default defineConfig({
     target: 'esnext',
     sourcemap: true,
   },
+  // 预览渲染 Worker 会按需加载代码块的语言解析器，需要支持代码分割的 ES 模块格式
+  worker: {
+    format: 'es',
+  },
   // Electron 生产模式使用 file:// 协议，必须使用相对路径
   base: './',
 })